@@ -0,0 +1,114 @@
+import mongoose from 'mongoose';
+import { Product } from '../models/Product';
+import { StockMovement } from '../models/StockMovement';
+import { reserveOrderStock, releaseOrderStock } from '../services/inventory';
+
+jest.mock('../models/Product', () => ({
+  Product: { findOneAndUpdate: jest.fn(), findById: jest.fn() }
+}));
+
+jest.mock('../models/StockMovement', () => ({
+  StockMovement: { create: jest.fn() }
+}));
+
+const tomatoId = new mongoose.Types.ObjectId();
+const onionId = new mongoose.Types.ObjectId();
+
+// In-memory stock per product and unit, updated the way the conditional $inc would
+let stock: Map<string, number>;
+
+const unitPricesFor = (productId: string) => Array.from(stock.entries())
+  .filter(([key]) => key.startsWith(`${productId}:`))
+  .map(([key, value]) => ({ unit: key.split(':')[1], stock: value }));
+
+const item = (productId: mongoose.Types.ObjectId, unit: string, qty: number) =>
+  ({ productId, name: `Product ${productId}`, unit, qty, price: 10 }) as any;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  stock = new Map([
+    [`${tomatoId}:kg`, 5],
+    [`${onionId}:kg`, 2]
+  ]);
+
+  jest.mocked(Product.findOneAndUpdate).mockImplementation(((filter: any, update: any) => {
+    const key = `${filter._id}:${filter.unitPrices.$elemMatch.unit}`;
+    const current = stock.get(key);
+    const minimum = filter.unitPrices.$elemMatch.stock?.$gte ?? 0;
+    if (current === undefined || current < minimum) {
+      return Promise.resolve(null);
+    }
+    stock.set(key, current + update.$inc['unitPrices.$.stock']);
+    return Promise.resolve({ unitPrices: unitPricesFor(String(filter._id)) });
+  }) as any);
+
+  jest.mocked(Product.findById).mockImplementation(((id: any) => ({
+    select: () => Promise.resolve({ unitPrices: unitPricesFor(String(id)) })
+  })) as any);
+});
+
+describe('reserveOrderStock', () => {
+  it('decrements stock and records a sale movement per line', async () => {
+    const orderId = new mongoose.Types.ObjectId();
+    const shortages = await reserveOrderStock([item(tomatoId, 'kg', 2), item(onionId, 'kg', 1)], { orderId });
+
+    expect(shortages).toEqual([]);
+    expect(stock.get(`${tomatoId}:kg`)).toBe(3);
+    expect(stock.get(`${onionId}:kg`)).toBe(1);
+    expect(StockMovement.create).toHaveBeenCalledTimes(2);
+    expect(StockMovement.create).toHaveBeenCalledWith(expect.objectContaining({
+      productId: tomatoId,
+      unit: 'kg',
+      delta: -2,
+      reason: 'sale',
+      stockAfter: 3,
+      orderId
+    }));
+  });
+
+  it('merges lines for the same product and unit', async () => {
+    const shortages = await reserveOrderStock([item(tomatoId, 'kg', 2), item(tomatoId, 'kg', 3)]);
+
+    expect(shortages).toEqual([]);
+    expect(stock.get(`${tomatoId}:kg`)).toBe(0);
+    expect(StockMovement.create).toHaveBeenCalledTimes(1);
+    expect(StockMovement.create).toHaveBeenCalledWith(expect.objectContaining({ delta: -5 }));
+  });
+
+  it('puts back reserved lines and reports shortages when an item is short', async () => {
+    const shortages = await reserveOrderStock([item(tomatoId, 'kg', 2), item(onionId, 'kg', 3)]);
+
+    expect(shortages).toEqual([{
+      productId: onionId.toString(),
+      name: `Product ${onionId}`,
+      unit: 'kg',
+      requested: 3,
+      available: 2
+    }]);
+    expect(stock.get(`${tomatoId}:kg`)).toBe(5);
+    expect(stock.get(`${onionId}:kg`)).toBe(2);
+    expect(StockMovement.create).not.toHaveBeenCalled();
+  });
+
+  it('reports a missing unit as unavailable', async () => {
+    const shortages = await reserveOrderStock([item(tomatoId, 'pcs', 1)]);
+
+    expect(shortages).toEqual([expect.objectContaining({ unit: 'pcs', requested: 1, available: 0 })]);
+  });
+});
+
+describe('releaseOrderStock', () => {
+  it('adds stock back and records a cancellation movement', async () => {
+    const orderId = new mongoose.Types.ObjectId();
+    await releaseOrderStock([item(tomatoId, 'kg', 2)], { orderId });
+
+    expect(stock.get(`${tomatoId}:kg`)).toBe(7);
+    expect(StockMovement.create).toHaveBeenCalledWith(expect.objectContaining({
+      productId: tomatoId,
+      delta: 2,
+      reason: 'cancellation',
+      stockAfter: 7,
+      orderId
+    }));
+  });
+});
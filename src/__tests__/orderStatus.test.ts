@@ -0,0 +1,35 @@
+import { ORDER_STATUSES, ORDER_STATUS_TRANSITIONS, canTransitionOrderStatus } from '../models/Order';
+
+describe('order status state machine', () => {
+  it('walks the happy path from placed to delivered', () => {
+    expect(canTransitionOrderStatus('placed', 'confirmed')).toBe(true);
+    expect(canTransitionOrderStatus('confirmed', 'preparing')).toBe(true);
+    expect(canTransitionOrderStatus('preparing', 'out_for_delivery')).toBe(true);
+    expect(canTransitionOrderStatus('out_for_delivery', 'delivered')).toBe(true);
+  });
+
+  it('allows cancelling until the order is delivered', () => {
+    for (const status of ['placed', 'confirmed', 'preparing', 'out_for_delivery'] as const) {
+      expect(canTransitionOrderStatus(status, 'cancelled')).toBe(true);
+    }
+    expect(canTransitionOrderStatus('delivered', 'cancelled')).toBe(false);
+  });
+
+  it('rejects skipping or going back a step', () => {
+    expect(canTransitionOrderStatus('placed', 'delivered')).toBe(false);
+    expect(canTransitionOrderStatus('confirmed', 'out_for_delivery')).toBe(false);
+    expect(canTransitionOrderStatus('preparing', 'confirmed')).toBe(false);
+    expect(canTransitionOrderStatus('placed', 'placed')).toBe(false);
+  });
+
+  it('treats delivered and cancelled as final', () => {
+    for (const status of ORDER_STATUSES) {
+      expect(canTransitionOrderStatus('delivered', status)).toBe(false);
+      expect(canTransitionOrderStatus('cancelled', status)).toBe(false);
+    }
+  });
+
+  it('defines transitions for every status', () => {
+    expect(Object.keys(ORDER_STATUS_TRANSITIONS).sort()).toEqual([...ORDER_STATUSES].sort());
+  });
+});
@@ -0,0 +1,124 @@
+import { Order } from '../models/Order';
+import { PaymentEvent } from '../models/PaymentEvent';
+import { handlePaymentWebhook } from '../services/payments';
+import { runInTransaction } from '../utils/transaction';
+
+jest.mock('../models/Order', () => ({
+  Order: { findOne: jest.fn() }
+}));
+
+jest.mock('../models/PaymentEvent', () => ({
+  PaymentEvent: { create: jest.fn() }
+}));
+
+// Run the work directly; event ids only persist when the work commits
+jest.mock('../utils/transaction', () => ({
+  runInTransaction: jest.fn()
+}));
+
+let recorded: Set<string>;
+let pending: string[];
+let order: any;
+
+const captured = (eventId: string) => [
+  'razorpay',
+  { event: 'payment.captured', payload: { payment: { entity: { id: 'pay_1', order_id: 'order_1', amount: 25000 } } } },
+  eventId
+] as const;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  recorded = new Set();
+  pending = [];
+  order = {
+    _id: 'order-doc',
+    total: 250,
+    payment: { provider: 'razorpay', status: 'pending', orderId: 'order_1' },
+    refunds: [],
+    save: jest.fn().mockResolvedValue(undefined)
+  };
+
+  jest.mocked(runInTransaction).mockImplementation(async (work: any) => {
+    pending = [];
+    const result = await work({});
+    pending.forEach((key) => recorded.add(key));
+    return result;
+  });
+
+  jest.mocked(PaymentEvent.create).mockImplementation((async ([doc]: any[]) => {
+    const key = `${doc.provider}:${doc.eventId}`;
+    if (recorded.has(key)) {
+      throw Object.assign(new Error('E11000 duplicate key error'), { code: 11000 });
+    }
+    pending.push(key);
+    return [{ ...doc, save: jest.fn().mockResolvedValue(undefined) }];
+  }) as any);
+
+  jest.mocked(Order.findOne).mockImplementation((() => ({ session: () => Promise.resolve(order) })) as any);
+});
+
+describe('handlePaymentWebhook', () => {
+  it('applies a payment event to its order', async () => {
+    const result = await handlePaymentWebhook(...captured('evt_1'));
+
+    expect(result).toEqual({ duplicate: false, outcome: 'applied', orderId: 'order-doc' });
+    expect(order.payment).toMatchObject({ status: 'paid', amountPaid: 250, paymentId: 'pay_1' });
+    expect(order.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('acknowledges a redelivered event without touching the order', async () => {
+    await handlePaymentWebhook(...captured('evt_1'));
+    order.save.mockClear();
+
+    const result = await handlePaymentWebhook(...captured('evt_1'));
+
+    expect(result).toEqual({ duplicate: true, outcome: 'ignored' });
+    expect(order.save).not.toHaveBeenCalled();
+  });
+
+  it('records the event before reading or changing the order', async () => {
+    recorded.add('razorpay:evt_2');
+
+    await handlePaymentWebhook(...captured('evt_2'));
+
+    expect(Order.findOne).not.toHaveBeenCalled();
+    expect(order.payment.status).toBe('pending');
+  });
+
+  it('lets the event be retried when applying it fails', async () => {
+    order.save.mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(handlePaymentWebhook(...captured('evt_3'))).rejects.toThrow('write failed');
+    expect(recorded.has('razorpay:evt_3')).toBe(false);
+
+    order.payment.status = 'pending';
+    const result = await handlePaymentWebhook(...captured('evt_3'));
+    expect(result).toMatchObject({ duplicate: false, outcome: 'applied' });
+  });
+
+  it('ignores a late failure for a refund that was already processed', async () => {
+    order.payment.status = 'refunded';
+    order.refunds.push({ amount: 250, status: 'processed', gatewayRefundId: 'rfnd_1' });
+
+    const result = await handlePaymentWebhook('razorpay', {
+      event: 'refund.failed',
+      payload: { refund: { entity: { id: 'rfnd_1', payment_id: 'pay_1', amount: 25000 } } }
+    }, 'evt_4');
+
+    expect(result).toMatchObject({ duplicate: false, outcome: 'ignored' });
+    expect(order.refunds[0].status).toBe('processed');
+    expect(order.payment.status).toBe('refunded');
+  });
+
+  it('does not record a gateway refund without an amount', async () => {
+    order.payment.status = 'paid';
+
+    const result = await handlePaymentWebhook('razorpay', {
+      event: 'refund.processed',
+      payload: { refund: { entity: { id: 'rfnd_2', payment_id: 'pay_1' } } }
+    }, 'evt_5');
+
+    expect(result).toMatchObject({ duplicate: false, outcome: 'ignored' });
+    expect(order.refunds).toEqual([]);
+  });
+});
@@ -0,0 +1,142 @@
+import mongoose from 'mongoose';
+import { Product } from '../models/Product';
+import { PriceChange } from '../models/PriceChange';
+import { PriceSchedule } from '../models/PriceSchedule';
+import { applyPriceSchedule, endPriceSchedule } from '../services/pricing';
+import { runInTransaction } from '../utils/transaction';
+
+jest.mock('../models/Product', () => ({
+  Product: { findOne: jest.fn(), findOneAndUpdate: jest.fn() }
+}));
+
+jest.mock('../models/PriceChange', () => ({
+  PriceChange: { insertMany: jest.fn() }
+}));
+
+jest.mock('../models/PriceSchedule', () => ({
+  PriceSchedule: { findOneAndUpdate: jest.fn() }
+}));
+
+jest.mock('../utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+jest.mock('../utils/transaction', () => ({
+  runInTransaction: jest.fn((work: any) => work({}))
+}));
+
+const productId = new mongoose.Types.ObjectId();
+const now = new Date('2024-06-01T00:00:00Z');
+
+let unitPrices: { unit: string; price: number; compareAt?: number }[];
+let schedule: any;
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  unitPrices = [{ unit: 'kg', price: 40, compareAt: 50 }];
+  schedule = {
+    _id: new mongoose.Types.ObjectId(),
+    productId,
+    unit: 'kg',
+    price: 30,
+    status: 'pending',
+    endsAt: new Date('2024-06-08T00:00:00Z'),
+    save: jest.fn().mockResolvedValue(undefined)
+  };
+
+  // Conditional claim on the schedule's current status
+  jest.mocked(PriceSchedule.findOneAndUpdate).mockImplementation(((filter: any, update: any) => {
+    if (schedule.status !== filter.status) {
+      return Promise.resolve(null);
+    }
+    Object.assign(schedule, update.$set);
+    return Promise.resolve(schedule);
+  }) as any);
+
+  jest.mocked(Product.findOne).mockImplementation((() => ({
+    select: () => ({ session: () => Promise.resolve({ unitPrices: clone(unitPrices) }) })
+  })) as any);
+
+  // Returns the product as it was before the update, like the service expects
+  jest.mocked(Product.findOneAndUpdate).mockImplementation(((filter: any, update: any) => {
+    const target = unitPrices.find((up) => up.unit === filter['unitPrices.unit']);
+    if (!target) {
+      return Promise.resolve(null);
+    }
+    const before = clone(unitPrices);
+    target.price = update.$set['unitPrices.$.price'];
+    if (update.$unset) {
+      delete target.compareAt;
+    } else {
+      target.compareAt = update.$set['unitPrices.$.compareAt'];
+    }
+    return Promise.resolve({ unitPrices: before });
+  }) as any);
+});
+
+describe('applyPriceSchedule', () => {
+  it('sets the scheduled price and remembers the values to revert to', async () => {
+    expect(await applyPriceSchedule(schedule, now)).toBe(true);
+
+    expect(unitPrices[0]).toEqual({ unit: 'kg', price: 30, compareAt: 50 });
+    expect(schedule.status).toBe('active');
+    expect(schedule.revertTo).toEqual({ price: 40, compareAt: 50 });
+    expect(PriceChange.insertMany).toHaveBeenCalledWith(
+      [expect.objectContaining({ unit: 'kg', price: 30, previousPrice: 40, source: 'schedule', scheduleId: schedule._id })],
+      expect.anything()
+    );
+    expect(runInTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('does nothing when the schedule was already claimed', async () => {
+    schedule.status = 'active';
+
+    expect(await applyPriceSchedule(schedule, now)).toBe(false);
+    expect(unitPrices[0].price).toBe(40);
+    expect(PriceChange.insertMany).not.toHaveBeenCalled();
+  });
+
+  it('cancels the schedule when the unit no longer exists', async () => {
+    unitPrices = [{ unit: 'pcs', price: 10 }];
+
+    expect(await applyPriceSchedule(schedule, now)).toBe(false);
+    expect(schedule.status).toBe('cancelled');
+    expect(schedule.note).toBe('Product or unit no longer exists');
+  });
+});
+
+describe('endPriceSchedule', () => {
+  beforeEach(async () => {
+    await applyPriceSchedule(schedule, now);
+    jest.mocked(PriceChange.insertMany).mockClear();
+  });
+
+  it('puts back the replaced values', async () => {
+    expect(await endPriceSchedule(schedule, schedule.endsAt)).toBe(true);
+
+    expect(unitPrices[0]).toEqual({ unit: 'kg', price: 40, compareAt: 50 });
+    expect(schedule.status).toBe('completed');
+    expect(PriceChange.insertMany).toHaveBeenCalledWith(
+      [expect.objectContaining({ price: 40, previousPrice: 30, source: 'revert' })],
+      expect.anything()
+    );
+  });
+
+  it('keeps a price changed by hand while the schedule ran', async () => {
+    unitPrices[0].price = 35;
+
+    expect(await endPriceSchedule(schedule, schedule.endsAt)).toBe(false);
+    expect(unitPrices[0].price).toBe(35);
+    expect(schedule.note).toBe('Not reverted: price changed while active');
+    expect(PriceChange.insertMany).not.toHaveBeenCalled();
+  });
+
+  it('skips the revert when nothing was recorded to revert to', async () => {
+    schedule.revertTo = undefined;
+
+    expect(await endPriceSchedule(schedule, schedule.endsAt)).toBe(false);
+    expect(unitPrices[0].price).toBe(30);
+  });
+});
@@ -0,0 +1,99 @@
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { Session } from '../models/Session';
+import { User } from '../models/User';
+import { issueTokens, rotateRefreshToken, isSessionActive, RefreshTokenError } from '../services/tokens';
+
+jest.mock('../models/Session', () => ({
+  Session: { create: jest.fn(), findById: jest.fn(), findOneAndUpdate: jest.fn(), updateOne: jest.fn() }
+}));
+
+jest.mock('../models/User', () => ({
+  User: { findById: jest.fn() }
+}));
+
+const userId = new mongoose.Types.ObjectId();
+
+// The single session document the service reads and writes, and its user
+let session: any;
+let user: any;
+
+beforeAll(() => {
+  process.env.JWT_SECRET = 'test-access-secret';
+  process.env.JWT_REFRESH_SECRET = 'test-refresh-secret';
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  session = undefined;
+  user = { _id: userId, role: 'admin', isBlocked: false };
+
+  jest.mocked(User.findById).mockImplementation((() => ({ select: () => Promise.resolve(user) })) as any);
+
+  jest.mocked(Session.create).mockImplementation(((doc: any) => {
+    session = { _id: new mongoose.Types.ObjectId(), ...doc };
+    return Promise.resolve(session);
+  }) as any);
+
+  jest.mocked(Session.findById).mockImplementation((() =>
+    Object.assign(Promise.resolve(session ?? null), { select: () => Promise.resolve(session ?? null) })
+  ) as any);
+
+  jest.mocked(Session.findOneAndUpdate).mockImplementation(((filter: any, update: any) => {
+    if (!session || session.revokedAt || session.currentTokenHash !== filter.currentTokenHash) {
+      return Promise.resolve(null);
+    }
+    Object.assign(session, update.$set);
+    return Promise.resolve(session);
+  }) as any);
+
+  jest.mocked(Session.updateOne).mockImplementation(((_filter: any, update: any) => {
+    if (session && !session.revokedAt) {
+      Object.assign(session, update.$set);
+    }
+    return Promise.resolve({ modifiedCount: 1 });
+  }) as any);
+});
+
+describe('rotateRefreshToken', () => {
+  it('issues a new token pair bound to the same session', async () => {
+    const first = await issueTokens(userId);
+    const second = await rotateRefreshToken(first.refreshToken);
+
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+    expect(jwt.decode(second.accessToken)).toMatchObject({ userId: userId.toString(), sid: session._id.toString(), type: 'access' });
+    expect(await isSessionActive(session._id.toString())).toBe(true);
+  });
+
+  it('revokes the session when an already rotated token is reused', async () => {
+    const first = await issueTokens(userId);
+    const second = await rotateRefreshToken(first.refreshToken);
+
+    await expect(rotateRefreshToken(first.refreshToken)).rejects.toThrow('Refresh token reuse detected, session revoked');
+    expect(session.revokedReason).toBe('reuse_detected');
+    expect(await isSessionActive(session._id.toString())).toBe(false);
+
+    // The legitimate latest token dies with the session
+    await expect(rotateRefreshToken(second.refreshToken)).rejects.toThrow('Session is no longer valid');
+  });
+
+  it('ends the session when the user is blocked, removed or no longer staff', async () => {
+    for (const change of [() => { user.isBlocked = true; }, () => { user = null; }, () => { user.role = 'user'; }]) {
+      user = { _id: userId, role: 'admin', isBlocked: false };
+      const { refreshToken } = await issueTokens(userId);
+      change();
+
+      await expect(rotateRefreshToken(refreshToken)).rejects.toThrow('Session is no longer valid');
+      expect(session.revokedReason).toBe('admin');
+    }
+  });
+
+  it('rejects access tokens and tokens signed with another secret', async () => {
+    const { accessToken } = await issueTokens(userId);
+    const forged = jwt.sign({ userId: userId.toString(), sid: session._id.toString(), jti: 'x', type: 'refresh' }, 'wrong-secret');
+
+    await expect(rotateRefreshToken(accessToken)).rejects.toBeInstanceOf(RefreshTokenError);
+    await expect(rotateRefreshToken(forged)).rejects.toBeInstanceOf(RefreshTokenError);
+    expect(session.revokedAt).toBeUndefined();
+  });
+});
@@ -0,0 +1,225 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Order } from '../models/Order';
+import { Product } from '../models/Product';
+import { Category } from '../models/Category';
+import { logger } from '../utils/logger';
+import { STORE_TIMEZONE, buildDateRange, isValidTimezone } from '../utils/dates';
+
+// Revenue figures include every order that was not cancelled
+const REVENUE_MATCH = { status: { $ne: 'cancelled' } };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateParam = z.string().refine((value) => !isNaN(Date.parse(value)), 'Invalid date');
+
+const rangeSchema = z.object({
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  timezone: z.string().refine(isValidTimezone, 'Invalid timezone').default(STORE_TIMEZONE)
+});
+
+const revenueSchema = rangeSchema.extend({
+  interval: z.enum(['day', 'week', 'month']).default('day')
+});
+
+const topProductsSchema = rangeSchema.extend({
+  sortBy: z.enum(['quantity', 'revenue']).default('revenue'),
+  limit: z.coerce.number().int().min(1).max(100).default(10)
+});
+
+// Default to the last 30 days when no range is given
+const toCreatedAtMatch = ({ from, to, timezone }: z.infer<typeof rangeSchema>) => {
+  const range = buildDateRange(from, to, timezone);
+  if (!range.$gte) {
+    range.$gte = new Date((range.$lt ?? range.$lte ?? new Date()).getTime() - 30 * DAY_MS);
+  }
+  return { createdAt: range };
+};
+
+const handleError = (res: Response, error: unknown, action: string) => {
+  logger.error(`${action} error:`, error);
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: `${error.errors[0].path.join('.')}: ${error.errors[0].message}`
+    });
+  }
+  res.status(500).json({
+    success: false,
+    error: `Failed to fetch ${action.toLowerCase()}`
+  });
+};
+
+export const getSalesSummary = async (req: Request, res: Response) => {
+  try {
+    const params = rangeSchema.parse(req.query);
+
+    const [summary] = await Order.aggregate([
+      { $match: toCreatedAtMatch(params) },
+      {
+        $group: {
+          _id: null,
+          totalOrders: { $sum: 1 },
+          cancelledOrders: { $sum: { $cond: [{ $eq: ['$status', 'cancelled'] }, 1, 0] } },
+          revenue: { $sum: { $cond: [{ $ne: ['$status', 'cancelled'] }, '$total', 0] } }
+        }
+      }
+    ]);
+
+    const totalOrders = summary?.totalOrders ?? 0;
+    const cancelledOrders = summary?.cancelledOrders ?? 0;
+    const revenue = summary?.revenue ?? 0;
+    const paidOrders = totalOrders - cancelledOrders;
+
+    res.json({
+      success: true,
+      data: {
+        totalOrders,
+        cancelledOrders,
+        revenue,
+        averageOrderValue: paidOrders > 0 ? revenue / paidOrders : 0,
+        cancellationRate: totalOrders > 0 ? cancelledOrders / totalOrders : 0
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Sales summary');
+  }
+};
+
+export const getRevenueOverTime = async (req: Request, res: Response) => {
+  try {
+    const params = revenueSchema.parse(req.query);
+
+    const buckets = await Order.aggregate([
+      { $match: { ...toCreatedAtMatch(params), ...REVENUE_MATCH } },
+      {
+        $group: {
+          _id: {
+            $dateTrunc: { date: '$createdAt', unit: params.interval, timezone: params.timezone, startOfWeek: 'monday' }
+          },
+          orders: { $sum: 1 },
+          revenue: { $sum: '$total' }
+        }
+      },
+      { $sort: { _id: 1 } },
+      {
+        $project: {
+          _id: 0,
+          period: '$_id',
+          orders: 1,
+          revenue: 1,
+          averageOrderValue: { $divide: ['$revenue', '$orders'] }
+        }
+      }
+    ]);
+
+    res.json({
+      success: true,
+      data: buckets,
+      meta: {
+        interval: params.interval,
+        timezone: params.timezone
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Revenue over time');
+  }
+};
+
+export const getTopProducts = async (req: Request, res: Response) => {
+  try {
+    const params = topProductsSchema.parse(req.query);
+
+    const products = await Order.aggregate([
+      { $match: { ...toCreatedAtMatch(params), ...REVENUE_MATCH } },
+      { $unwind: '$items' },
+      // Order items are stored loosely, so normalise the product reference before grouping
+      { $addFields: { productRef: { $toObjectId: '$items.productId' } } },
+      {
+        $group: {
+          _id: { productId: '$productRef', unit: '$items.unit' },
+          name: { $last: '$items.name' },
+          quantity: { $sum: '$items.qty' },
+          revenue: { $sum: '$items.price' },
+          orders: { $sum: 1 }
+        }
+      },
+      { $sort: { [params.sortBy]: -1 } },
+      { $limit: params.limit },
+      {
+        $project: {
+          _id: 0,
+          productId: '$_id.productId',
+          unit: '$_id.unit',
+          name: 1,
+          quantity: 1,
+          revenue: 1,
+          orders: 1
+        }
+      }
+    ]);
+
+    res.json({
+      success: true,
+      data: products
+    });
+  } catch (error) {
+    handleError(res, error, 'Top products');
+  }
+};
+
+export const getRevenueByCategory = async (req: Request, res: Response) => {
+  try {
+    const params = rangeSchema.parse(req.query);
+
+    const categories = await Order.aggregate([
+      { $match: { ...toCreatedAtMatch(params), ...REVENUE_MATCH } },
+      { $unwind: '$items' },
+      // Order items are stored loosely, so normalise the product reference before joining
+      { $addFields: { productRef: { $toObjectId: '$items.productId' } } },
+      {
+        $lookup: {
+          from: Product.collection.name,
+          localField: 'productRef',
+          foreignField: '_id',
+          as: 'product'
+        }
+      },
+      {
+        $group: {
+          _id: { $arrayElemAt: ['$product.categoryId', 0] },
+          revenue: { $sum: '$items.price' },
+          quantity: { $sum: '$items.qty' },
+          orders: { $addToSet: '$_id' }
+        }
+      },
+      {
+        $lookup: {
+          from: Category.collection.name,
+          localField: '_id',
+          foreignField: '_id',
+          as: 'category'
+        }
+      },
+      {
+        $project: {
+          _id: 0,
+          categoryId: '$_id',
+          categoryName: { $ifNull: [{ $arrayElemAt: ['$category.name', 0] }, 'Uncategorised'] },
+          revenue: 1,
+          quantity: 1,
+          orders: { $size: '$orders' }
+        }
+      },
+      { $sort: { revenue: -1 } }
+    ]);
+
+    res.json({
+      success: true,
+      data: categories
+    });
+  } catch (error) {
+    handleError(res, error, 'Revenue by category');
+  }
+};
@@ -0,0 +1,80 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { AuditLog, AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '../models/AuditLog';
+import { logger } from '../utils/logger';
+
+const objectId = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+
+const auditLogQuerySchema = z.object({
+  actorId: objectId.optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: objectId.optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  page: z.coerce.number().int().min(1).default(1)
+});
+
+export const getAuditLogs = async (req: Request, res: Response) => {
+  try {
+    const { actorId, entityType, entityId, action, from, to, limit: limitNum, page: pageNum } = auditLogQuerySchema.parse(req.query);
+
+    const query: any = {};
+
+    if (actorId) {
+      query.actorId = actorId;
+    }
+
+    if (entityType) {
+      query.entityType = entityType;
+    }
+
+    if (entityId) {
+      query.entityId = entityId;
+    }
+
+    if (action) {
+      query.action = action;
+    }
+
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = from;
+      if (to) query.createdAt.$lte = to;
+    }
+
+    const skip = (pageNum - 1) * limitNum;
+
+    const logs = await AuditLog.find(query)
+      .populate('actorId', 'name email role')
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip(skip);
+
+    const total = await AuditLog.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: logs,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    logger.error('Get audit logs error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch audit logs'
+    });
+  }
+};
@@ -1,109 +1,470 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
 import { z } from 'zod';
-import { User } from '../models/User';
+import { User, IUser } from '../models/User';
 import { logger } from '../utils/logger';
+import { getPermissions, isStaffRole } from '../utils/permissions';
+import { issueTokens, rotateRefreshToken, revokeRefreshToken, RefreshTokenError } from '../services/tokens';
+import { getRetryAfterSeconds, registerLoginFailure, clearLoginFailures, recordLoginEvent } from '../services/loginThrottle';
+import {
+  TWO_FACTOR_SELECT,
+  ChallengeTokenError,
+  signChallengeToken,
+  verifyChallengeToken,
+  generateRecoveryCodes,
+  consumeTotpCode,
+  consumeRecoveryCode
+} from '../services/twoFactor';
+import { generateTotpSecret, buildOtpauthUri } from '../utils/totp';
+import { AuthRequest } from '../middlewares/auth';
 
-// Validation schema
+// Validation schemas
 const adminLoginSchema = z.object({
   email: z.string().email('Invalid email format'),
   password: z.string().min(1, 'Password is required')
 });
 
-// Generate JWT tokens
-const generateTokens = (userId: string) => {
-  if (!process.env.JWT_SECRET) {
-    throw new Error('JWT_SECRET is not configured. Please set JWT_SECRET in your .env file.');
-  }
+const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, 'Refresh token is required')
+});
+
+const verifyTwoFactorSchema = z.object({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+  code: z.string().trim().optional(),
+  recoveryCode: z.string().trim().optional()
+}).refine((data) => data.code || data.recoveryCode, 'A code or recovery code is required');
+
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required')
+});
+
+const disableTwoFactorSchema = z.object({
+  password: z.string().min(1, 'Password is required'),
+  code: z.string().trim().min(1, 'Code is required')
+});
 
-  const accessToken = jwt.sign(
-    { userId },
-    process.env.JWT_SECRET,
-    { expiresIn: '1d' }
-  );
-  
-  const refreshToken = jwt.sign(
-    { userId },
-    process.env.JWT_SECRET,
-    { expiresIn: '30d' }
-  );
-  
-  return { accessToken, refreshToken };
+const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'VeggieFresh Admin';
+
+const tooManyAttempts = (res: Response, retryAfter: number) => {
+  res.set('Retry-After', retryAfter.toString());
+  return res.status(429).json({
+    success: false,
+    error: 'Too many failed login attempts. Please try again later.',
+    retryAfter
+  });
+};
+
+// Final step of every successful login: reset throttling, record it and issue tokens
+const completeLogin = async (req: Request, res: Response, user: IUser, extra: Record<string, unknown> = {}) => {
+  const email = user.email as string;
+  await clearLoginFailures(email);
+  await recordLoginEvent({ email, userId: user._id, outcome: 'success', ip: req.ip, userAgent: req.get('user-agent') });
+
+  const { accessToken, refreshToken } = await issueTokens(user._id, {
+    ip: req.ip,
+    userAgent: req.get('user-agent')
+  });
+
+  return res.json({
+    success: true,
+    data: {
+      user: {
+        id: user._id,
+        name: user.name,
+        email: user.email,
+        avatarUrl: user.avatarUrl,
+        role: user.role,
+        permissions: getPermissions(user.role),
+        twoFactorEnabled: user.twoFactorEnabled
+      },
+      accessToken,
+      refreshToken,
+      ...extra
+    }
+  });
 };
 
 export const adminLogin = async (req: Request, res: Response) => {
   try {
     const { email, password } = adminLoginSchema.parse(req.body);
 
-    // Find user
+    const loginMeta = { email, ip: req.ip, userAgent: req.get('user-agent') };
+
+    // Throttle by email so a locked response never reveals whether the account exists
+    const retryAfter = await getRetryAfterSeconds(email);
+    if (retryAfter > 0) {
+      await recordLoginEvent({ ...loginMeta, outcome: 'locked' });
+      return tooManyAttempts(res, retryAfter);
+    }
+
+    // Find user and verify password
     const user = await User.findOne({ email });
-    if (!user || !user.passwordHash) {
+    const isValidPassword = !!user?.passwordHash && await bcrypt.compare(password, user.passwordHash);
+    if (!user || !isValidPassword) {
+      await registerLoginFailure(email);
+      await recordLoginEvent({ ...loginMeta, userId: user?._id, outcome: 'invalid_credentials' });
       return res.status(401).json({
         success: false,
         error: 'Invalid credentials'
       });
     }
 
-    // Check if user is admin
-    if (user.role !== 'admin') {
+    // Check if user is staff
+    if (!isStaffRole(user.role)) {
+      await recordLoginEvent({ ...loginMeta, userId: user._id, outcome: 'not_staff' });
       return res.status(403).json({
         success: false,
         error: 'Admin access required'
       });
     }
 
-    // Verify password
-    const isValidPassword = await bcrypt.compare(password, user.passwordHash);
-    if (!isValidPassword) {
+    if (user.isBlocked) {
+      await recordLoginEvent({ ...loginMeta, userId: user._id, outcome: 'blocked' });
+      return res.status(403).json({
+        success: false,
+        error: 'Account is blocked'
+      });
+    }
+
+    // Password accepted; a second step is needed when 2FA is on or must be set up
+    if (user.twoFactorEnabled) {
+      await recordLoginEvent({ ...loginMeta, userId: user._id, outcome: 'two_factor_required' });
+      return res.json({
+        success: true,
+        data: {
+          twoFactorRequired: true,
+          challengeToken: signChallengeToken(user._id.toString(), 'verify')
+        }
+      });
+    }
+
+    if (user.twoFactorEnrollmentRequired) {
+      await recordLoginEvent({ ...loginMeta, userId: user._id, outcome: 'two_factor_required' });
+      return res.json({
+        success: true,
+        data: {
+          twoFactorSetupRequired: true,
+          challengeToken: signChallengeToken(user._id.toString(), 'enroll')
+        }
+      });
+    }
+
+    await completeLogin(req, res, user);
+  } catch (error) {
+    logger.error('Admin login error:', error);
+    res.status(400).json({
+      success: false,
+      error: error instanceof z.ZodError ? 'Validation error' : 'Login failed'
+    });
+  }
+};
+
+export const verifyTwoFactorLogin = async (req: Request, res: Response) => {
+  try {
+    const { challengeToken, code, recoveryCode } = verifyTwoFactorSchema.parse(req.body);
+    const { userId } = verifyChallengeToken(challengeToken, 'verify');
+
+    const user = await User.findById(userId).select(TWO_FACTOR_SELECT);
+    if (!user || !user.email || !user.twoFactorEnabled || user.isBlocked || !isStaffRole(user.role)) {
       return res.status(401).json({
         success: false,
-        error: 'Invalid credentials'
+        error: 'Invalid challenge token'
+      });
+    }
+
+    const loginMeta = { email: user.email, userId: user._id, ip: req.ip, userAgent: req.get('user-agent') };
+
+    const retryAfter = await getRetryAfterSeconds(user.email);
+    if (retryAfter > 0) {
+      await recordLoginEvent({ ...loginMeta, outcome: 'locked' });
+      return tooManyAttempts(res, retryAfter);
+    }
+
+    const isValid = code ? consumeTotpCode(user, code) : consumeRecoveryCode(user, recoveryCode!);
+    if (!isValid) {
+      await registerLoginFailure(user.email);
+      await recordLoginEvent({ ...loginMeta, outcome: 'invalid_two_factor' });
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code'
       });
     }
 
-    const { accessToken, refreshToken } = generateTokens(user._id.toString());
+    await user.save();
+
+    await completeLogin(req, res, user, code ? {} : {
+      remainingRecoveryCodes: user.twoFactorRecoveryCodes?.length ?? 0
+    });
+  } catch (error) {
+    logger.error('Verify two-factor login error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    if (error instanceof ChallengeTokenError) {
+      return res.status(401).json({
+        success: false,
+        error: error.message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Two-factor verification failed'
+    });
+  }
+};
+
+export const setupTwoFactor = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = await User.findById(req.user!._id).select(TWO_FACTOR_SELECT);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    if (user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    // The secret stays pending until a code from it has been verified
+    const secret = generateTotpSecret();
+    user.twoFactorPendingSecret = secret;
+    await user.save();
 
     res.json({
       success: true,
       data: {
-        user: {
-          id: user._id,
-          name: user.name,
-          email: user.email,
-          avatarUrl: user.avatarUrl,
-          role: user.role
-        },
-        accessToken,
-        refreshToken
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email || user._id.toString(), TWO_FACTOR_ISSUER)
       }
     });
   } catch (error) {
-    logger.error('Admin login error:', error);
-    res.status(400).json({
+    logger.error('Setup two-factor error:', error);
+    res.status(500).json({
       success: false,
-      error: error instanceof z.ZodError ? 'Validation error' : 'Login failed'
+      error: 'Failed to set up two-factor authentication'
     });
   }
 };
 
-export const getAdminProfile = async (req: Request, res: Response) => {
+export const activateTwoFactor = async (req: AuthRequest, res: Response) => {
   try {
-    if (!process.env.JWT_SECRET) {
-      return res.status(500).json({ success: false, error: 'JWT_SECRET is not configured' });
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const user = await User.findById(req.user!._id).select(TWO_FACTOR_SELECT);
+    if (!user) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    if (!user.twoFactorPendingSecret) {
+      return res.status(400).json({
+        success: false,
+        error: 'Start two-factor setup first'
+      });
     }
 
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
+    if (!consumeTotpCode(user, code, user.twoFactorPendingSecret)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = hashes;
+    user.twoFactorEnabled = true;
+    user.twoFactorEnrollmentRequired = false;
+    await user.save();
+
+    // Enrolment forced at login finishes that login
+    if (req.twoFactorEnrollment) {
+      return completeLogin(req, res, user, { recoveryCodes: codes });
+    }
 
-    if (!token) {
-      return res.status(401).json({ success: false, error: 'Access token required' });
+    res.json({
+      success: true,
+      data: { recoveryCodes: codes },
+      message: 'Two-factor authentication enabled'
+    });
+  } catch (error) {
+    logger.error('Activate two-factor error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
     }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to enable two-factor authentication'
+    });
+  }
+};
+
+export const disableTwoFactor = async (req: AuthRequest, res: Response) => {
+  try {
+    const { password, code } = disableTwoFactorSchema.parse(req.body);
+
+    const user = await User.findById(req.user!._id).select(TWO_FACTOR_SELECT);
+    if (!user || !user.passwordHash) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    if (!user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    const isValidPassword = await bcrypt.compare(password, user.passwordHash);
+    if (!isValidPassword || !(consumeTotpCode(user, code) || consumeRecoveryCode(user, code))) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid credentials'
+      });
+    }
+
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorRecoveryCodes = undefined;
+    user.twoFactorLastUsedStep = undefined;
+    await user.save();
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    logger.error('Disable two-factor error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to disable two-factor authentication'
+    });
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+
+    const user = await User.findById(req.user!._id).select(TWO_FACTOR_SELECT);
+    if (!user || !user.twoFactorEnabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    if (!consumeTotpCode(user, code)) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+    }
+
+    const { codes, hashes } = generateRecoveryCodes();
+    user.twoFactorRecoveryCodes = hashes;
+    await user.save();
+
+    res.json({
+      success: true,
+      data: { recoveryCodes: codes }
+    });
+  } catch (error) {
+    logger.error('Regenerate recovery codes error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to regenerate recovery codes'
+    });
+  }
+};
+
+export const refreshTokens = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+    const tokens = await rotateRefreshToken(refreshToken);
+
+    res.json({
+      success: true,
+      data: tokens
+    });
+  } catch (error) {
+    logger.error('Refresh token error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    if (error instanceof RefreshTokenError) {
+      return res.status(401).json({
+        success: false,
+        error: error.message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refresh token'
+    });
+  }
+};
+
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+    await revokeRefreshToken(refreshToken);
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    logger.error('Logout error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    if (error instanceof RefreshTokenError) {
+      return res.status(401).json({
+        success: false,
+        error: error.message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to log out'
+    });
+  }
+};
+
+export const getAdminProfile = async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user;
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET) as any;
-    const user = await User.findById(decoded.userId).select('-passwordHash');
-    
-    if (!user || user.role !== 'admin') {
+    if (!user || !isStaffRole(user.role)) {
       return res.status(403).json({ success: false, error: 'Admin access required' });
     }
 
@@ -115,13 +476,15 @@ export const getAdminProfile = async (req: Request, res: Response) => {
           name: user.name,
           email: user.email,
           avatarUrl: user.avatarUrl,
-          role: user.role
+          role: user.role,
+          permissions: getPermissions(user.role),
+          twoFactorEnabled: user.twoFactorEnabled
         }
       }
     });
   } catch (error) {
     logger.error('Get admin profile error:', error);
-    res.status(401).json({ success: false, error: 'Invalid token' });
+    res.status(500).json({ success: false, error: 'Failed to fetch profile' });
   }
 };
 
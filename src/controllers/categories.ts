@@ -1,13 +1,21 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
 import { Category } from '../models/Category';
+import { Product } from '../models/Product';
 import { logger } from '../utils/logger';
+import { runInTransaction } from '../utils/transaction';
+import { removeOrphanedUploads } from '../services/uploads';
 import { AuthRequest } from '../middlewares/auth';
+import { recordAudit } from '../services/audit';
+import { buildCategoryTree, findCategoryInCycle, getCategoryParentMap, getDescendantCategoryIds } from '../services/categories';
+
+const objectId = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid category ID');
 
 // Validation schemas
 const createCategorySchema = z.object({
   name: z.string().min(1, 'Name is required').trim(),
   iconUrl: z.string().url('Invalid URL').optional().or(z.literal('')),
+  parentId: objectId.nullable().optional(),
   sort: z.number().int().default(0),
   isActive: z.boolean().default(true)
 });
@@ -15,21 +23,56 @@ const createCategorySchema = z.object({
 const updateCategorySchema = z.object({
   name: z.string().min(1, 'Name is required').trim().optional(),
   iconUrl: z.string().url('Invalid URL').optional().or(z.literal('')),
+  parentId: objectId.nullable().optional(),
   sort: z.number().int().optional(),
-  isActive: z.boolean().optional()
+  isActive: z.boolean().optional(),
+  // With isActive: false, also hide subcategories and their products
+  cascade: z.boolean().optional()
+});
+
+const deleteCategorySchema = z.object({
+  moveProductsTo: objectId.optional(),
+  deactivateProducts: z.enum(['true', 'false']).optional()
+});
+
+const categoryListSchema = z.object({
+  tree: z.enum(['true', 'false']).optional(),
+  parentId: z.literal('root').or(objectId).optional()
+});
+
+const reorderCategoriesSchema = z.object({
+  groups: z.array(z.object({
+    parentId: objectId.nullable(),
+    ids: z.array(objectId).min(1, 'Each group needs at least one category')
+  })).min(1, 'At least one group is required')
 });
 
 export const getCategories = async (req: Request, res: Response) => {
   try {
-    const categories = await Category.find()
+    const { tree, parentId } = categoryListSchema.parse(req.query);
+
+    const query: any = { deletedAt: null };
+
+    // The tree always needs every category to attach children to parents
+    if (parentId && tree !== 'true') {
+      query.parentId = parentId === 'root' ? null : parentId;
+    }
+
+    const categories = await Category.find(query)
       .sort({ sort: 1, name: 1 });
 
     res.json({
       success: true,
-      data: categories
+      data: tree === 'true' ? buildCategoryTree(categories) : categories
     });
   } catch (error) {
     logger.error('Get categories error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to fetch categories'
@@ -68,7 +111,7 @@ export const createCategory = async (req: AuthRequest, res: Response) => {
     const data = createCategorySchema.parse(req.body);
 
     // Check if category with same name exists
-    const existingCategory = await Category.findOne({ name: data.name });
+    const existingCategory = await Category.findOne({ name: data.name, deletedAt: null });
     if (existingCategory) {
       return res.status(400).json({
         success: false,
@@ -76,8 +119,20 @@ export const createCategory = async (req: AuthRequest, res: Response) => {
       });
     }
 
+    if (data.parentId) {
+      const parent = await Category.findOne({ _id: data.parentId, deletedAt: null });
+      if (!parent) {
+        return res.status(400).json({
+          success: false,
+          error: 'Parent category not found'
+        });
+      }
+    }
+
     const category = await Category.create(data);
 
+    await recordAudit(req, { action: 'create', entityType: 'category', entityId: category._id, after: category });
+
     res.status(201).json({
       success: true,
       data: category
@@ -100,10 +155,10 @@ export const createCategory = async (req: AuthRequest, res: Response) => {
 export const updateCategory = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const data = updateCategorySchema.parse(req.body);
+    const { cascade, ...data } = updateCategorySchema.parse(req.body);
 
     // Check if category exists
-    const category = await Category.findById(id);
+    const category = await Category.findOne({ _id: id, deletedAt: null });
     if (!category) {
       return res.status(404).json({
         success: false,
@@ -113,7 +168,7 @@ export const updateCategory = async (req: AuthRequest, res: Response) => {
 
     // Check if name is being updated and already exists
     if (data.name && data.name !== category.name) {
-      const existingCategory = await Category.findOne({ name: data.name });
+      const existingCategory = await Category.findOne({ name: data.name, deletedAt: null });
       if (existingCategory) {
         return res.status(400).json({
           success: false,
@@ -122,12 +177,66 @@ export const updateCategory = async (req: AuthRequest, res: Response) => {
       }
     }
 
+    if (data.parentId) {
+      const parent = await Category.findOne({ _id: data.parentId, deletedAt: null });
+      if (!parent) {
+        return res.status(400).json({
+          success: false,
+          error: 'Parent category not found'
+        });
+      }
+
+      const parents = await getCategoryParentMap();
+      parents.set(id, data.parentId);
+      if (findCategoryInCycle(parents, [id])) {
+        return res.status(400).json({
+          success: false,
+          error: 'A category cannot be moved under itself or one of its subcategories'
+        });
+      }
+    }
+
+    const before = category.toObject();
+
     Object.assign(category, data);
-    await category.save();
+
+    let cascaded = { categories: 0, products: 0 };
+    if (cascade && data.isActive === false) {
+      const categoryIds = [category._id, ...await getDescendantCategoryIds(category._id)];
+      cascaded = await runInTransaction(async (session) => {
+        await category.save({ session });
+        const categories = await Category.updateMany(
+          { _id: { $in: categoryIds.slice(1) }, isActive: true },
+          { $set: { isActive: false } },
+          { session }
+        );
+        const products = await Product.updateMany(
+          { categoryId: { $in: categoryIds }, isActive: true },
+          { $set: { isActive: false } },
+          { session }
+        );
+        return { categories: categories.modifiedCount, products: products.modifiedCount };
+      });
+    } else {
+      await category.save();
+    }
+
+    await recordAudit(req, {
+      action: 'update',
+      entityType: 'category',
+      entityId: category._id,
+      before,
+      after: cascade ? { ...category.toObject(), deactivatedSubcategories: cascaded.categories, deactivatedProducts: cascaded.products } : category
+    });
+
+    if (before.iconUrl && before.iconUrl !== category.iconUrl) {
+      await removeOrphanedUploads([before.iconUrl]);
+    }
 
     res.json({
       success: true,
-      data: category
+      data: category,
+      ...(cascade ? { meta: { deactivatedSubcategories: cascaded.categories, deactivatedProducts: cascaded.products } } : {})
     });
   } catch (error) {
     logger.error('Update category error:', error);
@@ -147,8 +256,9 @@ export const updateCategory = async (req: AuthRequest, res: Response) => {
 export const deleteCategory = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
+    const { moveProductsTo, deactivateProducts } = deleteCategorySchema.parse(req.query);
 
-    const category = await Category.findById(id);
+    const category = await Category.findOne({ _id: id, deletedAt: null });
     if (!category) {
       return res.status(404).json({
         success: false,
@@ -156,14 +266,80 @@ export const deleteCategory = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    await Category.findByIdAndDelete(id);
+    const children = await Category.countDocuments({ parentId: category._id, deletedAt: null });
+    if (children > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `Category has ${children} subcategories; move or delete them first`
+      });
+    }
+
+    if (moveProductsTo && deactivateProducts === 'true') {
+      return res.status(400).json({
+        success: false,
+        error: 'Choose either moveProductsTo or deactivateProducts'
+      });
+    }
+
+    if (moveProductsTo) {
+      const target = await Category.findOne({ _id: moveProductsTo, deletedAt: null });
+      if (!target || target._id.equals(category._id)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Target category not found'
+        });
+      }
+    }
+
+    const productCount = await Product.countDocuments({ categoryId: category._id, deletedAt: null });
+    if (productCount > 0 && !moveProductsTo && deactivateProducts !== 'true') {
+      return res.status(409).json({
+        success: false,
+        error: `Category has ${productCount} products; pass moveProductsTo or deactivateProducts=true`,
+        productCount
+      });
+    }
+
+    // Products and the category change together so none are left in a trashed category
+    const affected = await runInTransaction(async (session) => {
+      let modified = 0;
+      if (moveProductsTo) {
+        // Trashed products move too, so they can still be restored
+        const result = await Product.updateMany({ categoryId: category._id }, { $set: { categoryId: moveProductsTo } }, { session });
+        modified = result.modifiedCount;
+      } else if (deactivateProducts === 'true') {
+        const result = await Product.updateMany({ categoryId: category._id, isActive: true, deletedAt: null }, { $set: { isActive: false } }, { session });
+        modified = result.modifiedCount;
+      }
+      await Category.updateOne(
+        { _id: category._id },
+        { $set: { deletedAt: new Date(), deletedBy: req.user?._id } },
+        { session }
+      );
+      return modified;
+    });
+
+    await recordAudit(req, {
+      action: 'delete',
+      entityType: 'category',
+      entityId: category._id,
+      before: category,
+      after: productCount > 0 ? { moveProductsTo: moveProductsTo ?? null, productsAffected: affected } : undefined
+    });
 
     res.json({
       success: true,
-      message: 'Category deleted successfully'
+      message: 'Category moved to trash',
+      ...(productCount > 0 ? { meta: { productCount, moved: moveProductsTo ? affected : 0, deactivated: moveProductsTo ? 0 : affected } } : {})
     });
   } catch (error) {
     logger.error('Delete category error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to delete category'
@@ -171,3 +347,209 @@ export const deleteCategory = async (req: AuthRequest, res: Response) => {
   }
 };
 
+
+export const reorderCategories = async (req: AuthRequest, res: Response) => {
+  try {
+    const { groups } = reorderCategoriesSchema.parse(req.body);
+
+    const ids = groups.flatMap((group) => group.ids);
+    if (new Set(ids).size !== ids.length) {
+      return res.status(400).json({
+        success: false,
+        error: 'Each category may appear only once'
+      });
+    }
+
+    const parents = await getCategoryParentMap();
+    const missing = [...ids, ...groups.map((group) => group.parentId)]
+      .find((categoryId) => categoryId && !parents.has(categoryId));
+    if (missing) {
+      return res.status(400).json({
+        success: false,
+        error: `Category ${missing} not found`
+      });
+    }
+
+    // Categories may be dragged under a new parent as part of the reorder
+    for (const group of groups) {
+      group.ids.forEach((categoryId) => parents.set(categoryId, group.parentId));
+    }
+    const looping = findCategoryInCycle(parents, ids);
+    if (looping) {
+      return res.status(400).json({
+        success: false,
+        error: `Category ${looping} cannot be moved under itself or one of its subcategories`
+      });
+    }
+
+    const before = await Category.find({ _id: { $in: ids } }).select('parentId sort');
+    const beforeById = new Map(before.map((category) => [category._id.toString(), category]));
+
+    await runInTransaction((session) => Category.bulkWrite(groups.flatMap((group) => group.ids.map((categoryId, index) => ({
+      updateOne: {
+        filter: { _id: categoryId },
+        update: { $set: { parentId: group.parentId, sort: index } }
+      }
+    }))), { session }));
+
+    for (const group of groups) {
+      for (const [index, categoryId] of group.ids.entries()) {
+        const previous = beforeById.get(categoryId);
+        const previousParent = previous?.parentId ? previous.parentId.toString() : null;
+        if (previous && (previous.sort !== index || previousParent !== group.parentId)) {
+          await recordAudit(req, {
+            action: 'update',
+            entityType: 'category',
+            entityId: previous._id,
+            before: { parentId: previousParent, sort: previous.sort },
+            after: { parentId: group.parentId, sort: index }
+          });
+        }
+      }
+    }
+
+    const categories = await Category.find({ deletedAt: null }).sort({ sort: 1, name: 1 });
+
+    res.json({
+      success: true,
+      data: buildCategoryTree(categories)
+    });
+  } catch (error) {
+    logger.error('Reorder categories error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reorder categories'
+    });
+  }
+};
+
+export const getTrashedCategories = async (req: Request, res: Response) => {
+  try {
+    const { limit = '50', page = '1' } = req.query;
+
+    const query = { deletedAt: { $ne: null } };
+
+    const limitNum = parseInt(limit as string);
+    const pageNum = parseInt(page as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const categories = await Category.find(query)
+      .populate('deletedBy', 'name email')
+      .sort({ deletedAt: -1 })
+      .limit(limitNum)
+      .skip(skip);
+
+    const total = await Category.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: categories,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    logger.error('Get trashed categories error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch trashed categories'
+    });
+  }
+};
+
+export const restoreCategory = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const category = await Category.findOne({ _id: id, deletedAt: { $ne: null } });
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        error: 'Category not found in trash'
+      });
+    }
+
+    const existingCategory = await Category.findOne({ name: category.name, deletedAt: null });
+    if (existingCategory) {
+      return res.status(409).json({
+        success: false,
+        error: `Another category is already named ${category.name}; rename it first`
+      });
+    }
+
+    const before = category.toObject();
+
+    // A parent that is gone or still in the trash cannot hold the category
+    if (category.parentId) {
+      const parent = await Category.findOne({ _id: category.parentId, deletedAt: null });
+      if (!parent) {
+        category.parentId = null;
+      }
+    }
+
+    category.deletedAt = null;
+    category.deletedBy = undefined;
+    await category.save();
+
+    await recordAudit(req, { action: 'restore', entityType: 'category', entityId: category._id, before, after: category });
+
+    res.json({
+      success: true,
+      data: category
+    });
+  } catch (error) {
+    logger.error('Restore category error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore category'
+    });
+  }
+};
+
+export const purgeCategory = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const category = await Category.findOne({ _id: id, deletedAt: { $ne: null } });
+    if (!category) {
+      return res.status(404).json({
+        success: false,
+        error: 'Category not found in trash'
+      });
+    }
+
+    // Trashed products count too; they would lose their category on restore
+    const products = await Product.countDocuments({ categoryId: category._id });
+    if (products > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `Category is still referenced by ${products} products and cannot be permanently deleted`
+      });
+    }
+
+    await Category.deleteOne({ _id: category._id });
+
+    await recordAudit(req, { action: 'purge', entityType: 'category', entityId: category._id, before: category });
+    await removeOrphanedUploads([category.iconUrl]);
+
+    res.json({
+      success: true,
+      message: 'Category permanently deleted'
+    });
+  } catch (error) {
+    logger.error('Purge category error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to purge category'
+    });
+  }
+};
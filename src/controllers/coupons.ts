@@ -0,0 +1,336 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import mongoose from 'mongoose';
+import { Coupon, COUPON_TYPES } from '../models/Coupon';
+import { Order } from '../models/Order';
+import { logger } from '../utils/logger';
+import { escapeRegex } from '../utils/regex';
+import { AuthRequest } from '../middlewares/auth';
+import { evaluateCoupon, couponUsageQuery } from '../services/coupons';
+
+const objectId = z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid ID');
+
+// Validation schemas
+const couponFields = z.object({
+  code: z.string().trim().min(3, 'Code must be at least 3 characters').max(32).regex(/^[A-Za-z0-9_-]+$/, 'Code may only contain letters, numbers, - and _'),
+  description: z.string().trim().optional(),
+  type: z.enum(COUPON_TYPES),
+  value: z.number().min(0).default(0),
+  maxDiscount: z.number().positive().optional(),
+  minSubtotal: z.number().min(0).default(0),
+  usageLimit: z.number().int().positive().optional(),
+  perUserLimit: z.number().int().positive().optional(),
+  validFrom: z.coerce.date().optional(),
+  validUntil: z.coerce.date().optional(),
+  categoryIds: z.array(objectId).default([]),
+  productIds: z.array(objectId).default([]),
+  isActive: z.boolean().default(true)
+});
+
+const checkCouponRules = (coupon: { type?: string; value?: number; validFrom?: Date; validUntil?: Date }) => {
+  if (coupon.type === 'percentage' && (!coupon.value || coupon.value > 100)) {
+    return 'Percentage coupons need a value between 1 and 100';
+  }
+  if (coupon.type === 'flat' && !coupon.value) {
+    return 'Flat coupons need a value';
+  }
+  if (coupon.validFrom && coupon.validUntil && coupon.validFrom >= coupon.validUntil) {
+    return 'validUntil must be after validFrom';
+  }
+  return null;
+};
+
+const updateCouponSchema = couponFields.partial().extend({
+  categoryIds: z.array(objectId).optional(),
+  productIds: z.array(objectId).optional()
+});
+
+const evaluateCouponSchema = z.object({
+  code: z.string().trim().min(1, 'Code is required'),
+  userId: objectId.optional(),
+  items: z.array(z.object({
+    productId: objectId,
+    name: z.string().default(''),
+    image: z.string().default(''),
+    unit: z.enum(['kg', 'g', 'pcs', 'bundle']),
+    qty: z.number().min(0),
+    unitPrice: z.number().min(0),
+    price: z.number().min(0)
+  })).min(1, 'At least one item is required')
+});
+
+const sendValidationError = (res: Response, error: z.ZodError) =>
+  res.status(400).json({
+    success: false,
+    error: error.errors[0].message
+  });
+
+export const getCoupons = async (req: Request, res: Response) => {
+  try {
+    const { q, isActive, limit = '50', page = '1' } = req.query;
+
+    const query: any = {};
+
+    if (q) {
+      query.code = new RegExp(escapeRegex(q as string), 'i');
+    }
+
+    if (isActive !== undefined) {
+      query.isActive = isActive === 'true';
+    }
+
+    const limitNum = parseInt(limit as string);
+    const pageNum = parseInt(page as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const coupons = await Coupon.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip(skip);
+
+    const total = await Coupon.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: coupons,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    logger.error('Get coupons error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch coupons'
+    });
+  }
+};
+
+export const getCouponById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await Coupon.findById(id)
+      .populate('categoryIds', 'name')
+      .populate('productIds', 'name slug');
+
+    if (!coupon) {
+      return res.status(404).json({
+        success: false,
+        error: 'Coupon not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: coupon
+    });
+  } catch (error) {
+    logger.error('Get coupon by ID error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch coupon'
+    });
+  }
+};
+
+export const createCoupon = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = couponFields.parse(req.body);
+
+    const ruleError = checkCouponRules(data);
+    if (ruleError) {
+      return res.status(400).json({
+        success: false,
+        error: ruleError
+      });
+    }
+
+    const existingCoupon = await Coupon.findOne({ code: data.code.toUpperCase() });
+    if (existingCoupon) {
+      return res.status(400).json({
+        success: false,
+        error: 'Coupon with this code already exists'
+      });
+    }
+
+    const coupon = await Coupon.create({ ...data, createdBy: req.user?._id });
+
+    res.status(201).json({
+      success: true,
+      data: coupon
+    });
+  } catch (error) {
+    logger.error('Create coupon error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create coupon'
+    });
+  }
+};
+
+export const updateCoupon = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = updateCouponSchema.parse(req.body);
+
+    const coupon = await Coupon.findById(id);
+    if (!coupon) {
+      return res.status(404).json({
+        success: false,
+        error: 'Coupon not found'
+      });
+    }
+
+    const ruleError = checkCouponRules({ ...coupon.toObject(), ...data });
+    if (ruleError) {
+      return res.status(400).json({
+        success: false,
+        error: ruleError
+      });
+    }
+
+    if (data.code && data.code.toUpperCase() !== coupon.code) {
+      const existingCoupon = await Coupon.findOne({ code: data.code.toUpperCase() });
+      if (existingCoupon) {
+        return res.status(400).json({
+          success: false,
+          error: 'Coupon with this code already exists'
+        });
+      }
+    }
+
+    Object.assign(coupon, data);
+    await coupon.save();
+
+    res.json({
+      success: true,
+      data: coupon
+    });
+  } catch (error) {
+    logger.error('Update coupon error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update coupon'
+    });
+  }
+};
+
+export const deleteCoupon = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await Coupon.findById(id);
+    if (!coupon) {
+      return res.status(404).json({
+        success: false,
+        error: 'Coupon not found'
+      });
+    }
+
+    // Used coupons stay for reporting; deactivate them instead
+    const used = await Order.countDocuments({ 'coupon.couponId': coupon._id });
+    if (used > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `Coupon has been used on ${used} orders; deactivate it instead`
+      });
+    }
+
+    await Coupon.findByIdAndDelete(id);
+
+    res.json({
+      success: true,
+      message: 'Coupon deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Delete coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete coupon'
+    });
+  }
+};
+
+export const evaluateCouponForCart = async (req: AuthRequest, res: Response) => {
+  try {
+    const { code, userId, items } = evaluateCouponSchema.parse(req.body);
+
+    const cartItems = items.map(item => ({ ...item, productId: new mongoose.Types.ObjectId(item.productId) }));
+    const result = await evaluateCoupon(code, cartItems, userId);
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    logger.error('Evaluate coupon error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to evaluate coupon'
+    });
+  }
+};
+
+export const getCouponStats = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const coupon = await Coupon.findById(id);
+    if (!coupon) {
+      return res.status(404).json({
+        success: false,
+        error: 'Coupon not found'
+      });
+    }
+
+    const [stats] = await Order.aggregate([
+      { $match: couponUsageQuery(coupon._id) },
+      {
+        $group: {
+          _id: null,
+          orders: { $sum: 1 },
+          totalDiscount: { $sum: '$coupon.discount' },
+          revenue: { $sum: '$total' },
+          users: { $addToSet: '$userId' },
+          freeDeliveries: { $sum: { $cond: ['$coupon.freeDelivery', 1, 0] } }
+        }
+      }
+    ]);
+
+    const cancelledOrders = await Order.countDocuments({ 'coupon.couponId': coupon._id, status: 'cancelled' });
+
+    res.json({
+      success: true,
+      data: {
+        couponId: coupon._id,
+        code: coupon.code,
+        orders: stats?.orders ?? 0,
+        uniqueUsers: stats?.users.length ?? 0,
+        totalDiscount: stats?.totalDiscount ?? 0,
+        revenue: stats?.revenue ?? 0,
+        freeDeliveries: stats?.freeDeliveries ?? 0,
+        cancelledOrders,
+        remainingUses: coupon.usageLimit ? Math.max(0, coupon.usageLimit - (stats?.orders ?? 0)) : null
+      }
+    });
+  } catch (error) {
+    logger.error('Get coupon stats error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch coupon stats'
+    });
+  }
+};
@@ -0,0 +1,381 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { DeliverySlot } from '../models/DeliverySlot';
+import { DeliveryBlackout } from '../models/DeliveryBlackout';
+import { Order } from '../models/Order';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middlewares/auth';
+
+const MAX_AVAILABILITY_DAYS = 31;
+
+const timeField = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be HH:mm');
+const dateField = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+  .refine((value) => !isNaN(Date.parse(value)), 'Invalid date');
+
+// Validation schemas
+const slotFields = {
+  name: z.string().trim().optional(),
+  recurrence: z.enum(['weekly', 'once']),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  date: dateField.optional(),
+  startTime: timeField,
+  endTime: timeField,
+  capacity: z.number().int().min(0),
+  isExpress: z.boolean(),
+  isActive: z.boolean()
+};
+
+const checkSlotShape = (slot: { recurrence?: string; dayOfWeek?: number; date?: string; startTime?: string; endTime?: string }) => {
+  if (slot.startTime && slot.endTime && slot.startTime >= slot.endTime) {
+    return 'End time must be after start time';
+  }
+  if (slot.recurrence === 'weekly' && slot.dayOfWeek === undefined) {
+    return 'Weekly slots need a dayOfWeek';
+  }
+  if (slot.recurrence === 'once' && !slot.date) {
+    return 'One-off slots need a date';
+  }
+  return null;
+};
+
+const createSlotSchema = z.object({
+  ...slotFields,
+  recurrence: slotFields.recurrence.default('weekly'),
+  isExpress: slotFields.isExpress.default(false),
+  isActive: slotFields.isActive.default(true)
+});
+
+const updateSlotSchema = z.object(slotFields).partial();
+
+const createBlackoutSchema = z.object({
+  date: dateField,
+  reason: z.string().trim().optional()
+});
+
+const availabilitySchema = z.object({
+  from: dateField,
+  to: dateField
+});
+
+const toDayOfWeek = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+// Number of calendar days from `from` to `to`, inclusive
+const countDays = (from: string, to: string) =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (24 * 60 * 60 * 1000)) + 1;
+
+const listDates = (from: string, to: string) => {
+  const dates: string[] = [];
+  const current = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  while (current <= end) {
+    dates.push(current.toISOString().slice(0, 10));
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+  return dates;
+};
+
+const sendValidationError = (res: Response, error: z.ZodError) =>
+  res.status(400).json({
+    success: false,
+    error: error.errors[0].message
+  });
+
+export const getDeliverySlots = async (req: Request, res: Response) => {
+  try {
+    const { recurrence, isActive } = req.query;
+
+    const query: any = {};
+
+    if (recurrence) {
+      query.recurrence = recurrence;
+    }
+
+    if (isActive !== undefined) {
+      query.isActive = isActive === 'true';
+    }
+
+    const slots = await DeliverySlot.find(query)
+      .sort({ recurrence: 1, dayOfWeek: 1, date: 1, startTime: 1 });
+
+    res.json({
+      success: true,
+      data: slots
+    });
+  } catch (error) {
+    logger.error('Get delivery slots error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch delivery slots'
+    });
+  }
+};
+
+export const createDeliverySlot = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = createSlotSchema.parse(req.body);
+
+    const shapeError = checkSlotShape(data);
+    if (shapeError) {
+      return res.status(400).json({
+        success: false,
+        error: shapeError
+      });
+    }
+
+    const slot = await DeliverySlot.create({
+      ...data,
+      dayOfWeek: data.recurrence === 'weekly' ? data.dayOfWeek : undefined,
+      date: data.recurrence === 'once' ? data.date : undefined
+    });
+
+    res.status(201).json({
+      success: true,
+      data: slot
+    });
+  } catch (error) {
+    logger.error('Create delivery slot error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create delivery slot'
+    });
+  }
+};
+
+export const updateDeliverySlot = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = updateSlotSchema.parse(req.body);
+
+    const slot = await DeliverySlot.findById(id);
+    if (!slot) {
+      return res.status(404).json({
+        success: false,
+        error: 'Delivery slot not found'
+      });
+    }
+
+    const merged = { ...slot.toObject(), ...data };
+    const shapeError = checkSlotShape(merged);
+    if (shapeError) {
+      return res.status(400).json({
+        success: false,
+        error: shapeError
+      });
+    }
+
+    Object.assign(slot, data);
+    if (slot.recurrence === 'weekly') {
+      slot.date = undefined;
+    } else {
+      slot.dayOfWeek = undefined;
+    }
+    await slot.save();
+
+    res.json({
+      success: true,
+      data: slot
+    });
+  } catch (error) {
+    logger.error('Update delivery slot error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update delivery slot'
+    });
+  }
+};
+
+export const deleteDeliverySlot = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const slot = await DeliverySlot.findByIdAndDelete(id);
+    if (!slot) {
+      return res.status(404).json({
+        success: false,
+        error: 'Delivery slot not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Delivery slot deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Delete delivery slot error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete delivery slot'
+    });
+  }
+};
+
+export const getBlackouts = async (req: Request, res: Response) => {
+  try {
+    const { from } = req.query;
+
+    const query: any = {};
+
+    if (from) {
+      query.date = { $gte: from };
+    }
+
+    const blackouts = await DeliveryBlackout.find(query).sort({ date: 1 });
+
+    res.json({
+      success: true,
+      data: blackouts
+    });
+  } catch (error) {
+    logger.error('Get blackouts error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch blackout dates'
+    });
+  }
+};
+
+export const createBlackout = async (req: AuthRequest, res: Response) => {
+  try {
+    const data = createBlackoutSchema.parse(req.body);
+
+    const existing = await DeliveryBlackout.findOne({ date: data.date });
+    if (existing) {
+      return res.status(400).json({
+        success: false,
+        error: 'This date is already blacked out'
+      });
+    }
+
+    const blackout = await DeliveryBlackout.create(data);
+
+    res.status(201).json({
+      success: true,
+      data: blackout
+    });
+  } catch (error) {
+    logger.error('Create blackout error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create blackout date'
+    });
+  }
+};
+
+export const deleteBlackout = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const blackout = await DeliveryBlackout.findByIdAndDelete(id);
+    if (!blackout) {
+      return res.status(404).json({
+        success: false,
+        error: 'Blackout date not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Blackout date deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Delete blackout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete blackout date'
+    });
+  }
+};
+
+/**
+ * Booked vs. available counts for every slot on each day in the range.
+ * Orders are matched to a slot by `timeSlot.date` and exact start/end
+ * times; cancelled orders do not count against capacity.
+ */
+export const getSlotAvailability = async (req: Request, res: Response) => {
+  try {
+    const { from, to } = availabilitySchema.parse(req.query);
+
+    // Check the size before building the list so a huge range is never expanded
+    const dayCount = countDays(from, to);
+    if (dayCount < 1 || dayCount > MAX_AVAILABILITY_DAYS) {
+      return res.status(400).json({
+        success: false,
+        error: `Range must cover 1 to ${MAX_AVAILABILITY_DAYS} days`
+      });
+    }
+
+    const dates = listDates(from, to);
+
+    const [slots, blackouts, bookings] = await Promise.all([
+      DeliverySlot.find({
+        isActive: true,
+        $or: [{ recurrence: 'weekly' }, { recurrence: 'once', date: { $gte: from, $lte: to } }]
+      }).sort({ startTime: 1 }),
+      DeliveryBlackout.find({ date: { $gte: from, $lte: to } }),
+      Order.aggregate([
+        { $match: { 'timeSlot.date': { $in: dates }, status: { $ne: 'cancelled' } } },
+        {
+          $group: {
+            _id: { date: '$timeSlot.date', startTime: '$timeSlot.startTime', endTime: '$timeSlot.endTime' },
+            booked: { $sum: 1 }
+          }
+        }
+      ])
+    ]);
+
+    const blackoutByDate = new Map(blackouts.map((b) => [b.date, b]));
+    const bookedByKey = new Map<string, number>(
+      bookings.map((b) => [`${b._id.date}|${b._id.startTime}|${b._id.endTime}`, b.booked])
+    );
+
+    const days = dates.map((date) => {
+      const blackout = blackoutByDate.get(date);
+      const dayOfWeek = toDayOfWeek(date);
+      const daySlots = blackout ? [] : slots.filter((slot) =>
+        slot.recurrence === 'weekly' ? slot.dayOfWeek === dayOfWeek : slot.date === date
+      );
+
+      return {
+        date,
+        blackout: blackout ? { reason: blackout.reason } : null,
+        slots: daySlots.map((slot) => {
+          const booked = bookedByKey.get(`${date}|${slot.startTime}|${slot.endTime}`) ?? 0;
+          return {
+            slotId: slot._id,
+            name: slot.name,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            capacity: slot.capacity,
+            booked,
+            available: Math.max(0, slot.capacity - booked),
+            isFull: booked >= slot.capacity,
+            isOverbooked: booked > slot.capacity
+          };
+        })
+      };
+    });
+
+    res.json({
+      success: true,
+      data: days
+    });
+  } catch (error) {
+    logger.error('Get slot availability error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch slot availability'
+    });
+  }
+};
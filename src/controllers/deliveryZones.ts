@@ -0,0 +1,327 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { DeliveryZone, PINCODE_PATTERN } from '../models/DeliveryZone';
+import { DeliverySlot } from '../models/DeliverySlot';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middlewares/auth';
+import {
+  findPincodeConflicts,
+  findZoneForPincode,
+  getCoverageReports,
+  getServiceablePincodes,
+  normalizePincode,
+  quoteDeliveryFee
+} from '../services/deliveryZones';
+
+const pincodeField = z.string()
+  .transform(normalizePincode)
+  .refine((value) => PINCODE_PATTERN.test(value), 'Pincode must be 6 digits');
+
+const pincodeList = z.array(pincodeField)
+  .transform((pincodes) => [...new Set(pincodes)]);
+
+// Validation schemas
+const zoneFields = {
+  name: z.string().trim().min(1, 'Name is required'),
+  pincodes: pincodeList,
+  baseFee: z.number().min(0),
+  freeDeliveryAbove: z.number().min(0).nullable(),
+  expressSurcharge: z.number().min(0),
+  minOrderValue: z.number().min(0),
+  isActive: z.boolean()
+};
+
+const createZoneSchema = z.object({
+  ...zoneFields,
+  pincodes: zoneFields.pincodes.refine((pincodes) => pincodes.length > 0, 'At least one pincode is required'),
+  baseFee: zoneFields.baseFee.default(0),
+  freeDeliveryAbove: zoneFields.freeDeliveryAbove.optional(),
+  expressSurcharge: zoneFields.expressSurcharge.default(0),
+  minOrderValue: zoneFields.minOrderValue.default(0),
+  isActive: zoneFields.isActive.default(true)
+});
+
+const updateZoneSchema = z.object(zoneFields).partial();
+
+const quoteSchema = z.object({
+  pincode: pincodeField,
+  subtotal: z.coerce.number().min(0),
+  slotId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid slot ID').optional(),
+  express: z.enum(['true', 'false']).optional()
+});
+
+const coverageImpactSchema = z.object({
+  zoneId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid zone ID').optional(),
+  pincodes: pincodeList.optional(),
+  isActive: z.boolean().optional(),
+  remove: z.boolean().optional()
+});
+
+const sendValidationError = (res: Response, error: z.ZodError) =>
+  res.status(400).json({
+    success: false,
+    error: error.errors[0].message
+  });
+
+const sendPincodeConflicts = (res: Response, conflicts: Awaited<ReturnType<typeof findPincodeConflicts>>) =>
+  res.status(409).json({
+    success: false,
+    error: `Pincode ${conflicts[0].pincode} is already covered by zone ${conflicts[0].zoneName}`,
+    conflicts
+  });
+
+export const getDeliveryZones = async (req: Request, res: Response) => {
+  try {
+    const { pincode, isActive } = req.query;
+
+    const query: any = {};
+
+    if (pincode) {
+      query.pincodes = normalizePincode(pincode as string);
+    }
+
+    if (isActive !== undefined) {
+      query.isActive = isActive === 'true';
+    }
+
+    const zones = await DeliveryZone.find(query).sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: zones
+    });
+  } catch (error) {
+    logger.error('Get delivery zones error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch delivery zones'
+    });
+  }
+};
+
+export const getDeliveryZoneById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const zone = await DeliveryZone.findById(id);
+    if (!zone) {
+      return res.status(404).json({
+        success: false,
+        error: 'Delivery zone not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: zone
+    });
+  } catch (error) {
+    logger.error('Get delivery zone by ID error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch delivery zone'
+    });
+  }
+};
+
+export const createDeliveryZone = async (req: AuthRequest, res: Response) => {
+  try {
+    const { freeDeliveryAbove, ...data } = createZoneSchema.parse(req.body);
+
+    if (data.isActive) {
+      const conflicts = await findPincodeConflicts(data.pincodes);
+      if (conflicts.length > 0) {
+        return sendPincodeConflicts(res, conflicts);
+      }
+    }
+
+    const zone = await DeliveryZone.create({
+      ...data,
+      freeDeliveryAbove: freeDeliveryAbove ?? undefined
+    });
+
+    res.status(201).json({
+      success: true,
+      data: zone
+    });
+  } catch (error) {
+    logger.error('Create delivery zone error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create delivery zone'
+    });
+  }
+};
+
+export const updateDeliveryZone = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { freeDeliveryAbove, ...data } = updateZoneSchema.parse(req.body);
+
+    const zone = await DeliveryZone.findById(id);
+    if (!zone) {
+      return res.status(404).json({
+        success: false,
+        error: 'Delivery zone not found'
+      });
+    }
+
+    if (data.pincodes && data.pincodes.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'At least one pincode is required'
+      });
+    }
+
+    if (data.isActive ?? zone.isActive) {
+      const conflicts = await findPincodeConflicts(data.pincodes ?? zone.pincodes, id);
+      if (conflicts.length > 0) {
+        return sendPincodeConflicts(res, conflicts);
+      }
+    }
+
+    Object.assign(zone, data);
+    if (freeDeliveryAbove !== undefined) {
+      // null clears the threshold
+      zone.freeDeliveryAbove = freeDeliveryAbove ?? undefined;
+    }
+    await zone.save();
+
+    res.json({
+      success: true,
+      data: zone
+    });
+  } catch (error) {
+    logger.error('Update delivery zone error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update delivery zone'
+    });
+  }
+};
+
+export const deleteDeliveryZone = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const zone = await DeliveryZone.findByIdAndDelete(id);
+    if (!zone) {
+      return res.status(404).json({
+        success: false,
+        error: 'Delivery zone not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Delivery zone deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Delete delivery zone error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete delivery zone'
+    });
+  }
+};
+
+export const getDeliveryQuote = async (req: Request, res: Response) => {
+  try {
+    const { pincode, subtotal, slotId, express } = quoteSchema.parse(req.query);
+
+    let isExpress = express === 'true';
+    if (slotId) {
+      const slot = await DeliverySlot.findById(slotId).select('isExpress');
+      if (!slot) {
+        return res.status(404).json({
+          success: false,
+          error: 'Delivery slot not found'
+        });
+      }
+      isExpress = slot.isExpress;
+    }
+
+    const zone = await findZoneForPincode(pincode);
+    if (!zone) {
+      return res.json({
+        success: true,
+        data: { pincode, serviceable: false }
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        pincode,
+        serviceable: true,
+        express: isExpress,
+        ...quoteDeliveryFee(zone, subtotal, isExpress)
+      }
+    });
+  } catch (error) {
+    logger.error('Get delivery quote error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to quote delivery fee'
+    });
+  }
+};
+
+export const getCoverageImpact = async (req: Request, res: Response) => {
+  try {
+    const { zoneId, pincodes, isActive, remove } = coverageImpactSchema.parse(req.body);
+
+    const current = await getServiceablePincodes();
+
+    // Rebuild coverage as it would look with the proposed change applied
+    const otherZones = await DeliveryZone.find({ isActive: true, ...(zoneId ? { _id: { $ne: zoneId } } : {}) })
+      .select('pincodes');
+    const proposed = new Set(otherZones.flatMap((zone) => zone.pincodes));
+
+    if (zoneId) {
+      const zone = await DeliveryZone.findById(zoneId).select('pincodes isActive');
+      if (!zone) {
+        return res.status(404).json({
+          success: false,
+          error: 'Delivery zone not found'
+        });
+      }
+      if (!remove && (isActive ?? zone.isActive)) {
+        (pincodes ?? zone.pincodes).forEach((pincode) => proposed.add(pincode));
+      }
+    } else if (pincodes && !remove && isActive !== false) {
+      pincodes.forEach((pincode) => proposed.add(pincode));
+    }
+
+    const [before, after] = await getCoverageReports([current, proposed]);
+    const beforePincodes = new Set(before.pincodes);
+
+    res.json({
+      success: true,
+      data: {
+        before,
+        after,
+        newlyUncoveredPincodes: after.pincodes.filter((pincode) => !beforePincodes.has(pincode)),
+        newlyCoveredPincodes: before.pincodes.filter((pincode) => proposed.has(pincode))
+      }
+    });
+  } catch (error) {
+    logger.error('Get coverage impact error:', error);
+    if (error instanceof z.ZodError) {
+      return sendValidationError(res, error);
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to compute coverage impact'
+    });
+  }
+};
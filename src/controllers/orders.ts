@@ -1,13 +1,41 @@
 import { Response } from 'express';
-import { Order } from '../models/Order';
+import { once } from 'events';
+import { Order, ORDER_STATUSES, ORDER_STATUS_TRANSITIONS, canTransitionOrderStatus } from '../models/Order';
 import { AuthRequest } from '../middlewares/auth';
 import { logger } from '../utils/logger';
+import { reserveOrderStock, releaseOrderStock } from '../services/inventory';
+import { recordAudit } from '../services/audit';
+import { ensureInvoice, writeInvoicePdf } from '../services/invoices';
+import { getRefundableAmount, isPaymentReceived } from '../services/payments';
+import { toCsvRow } from '../utils/csv';
+import { buildDateRange } from '../utils/dates';
 import { z } from 'zod';
 
 const updateOrderStatusSchema = z.object({
-  status: z.enum(['placed', 'confirmed', 'preparing', 'out_for_delivery', 'delivered', 'cancelled'])
+  status: z.enum(ORDER_STATUSES),
+  note: z.string().trim().max(500, 'Note is too long').optional()
 });
 
+const dateParam = z.string().refine((value) => !isNaN(Date.parse(value)), 'Invalid date');
+
+const exportOrdersSchema = z.object({
+  from: dateParam,
+  to: dateParam,
+  status: z.union([z.enum(ORDER_STATUSES), z.array(z.enum(ORDER_STATUSES))]).optional(),
+  provider: z.enum(['razorpay', 'stripe', 'cod']).optional(),
+  format: z.enum(['orders', 'items']).default('orders')
+});
+
+const ORDER_CSV_COLUMNS = [
+  'orderId', 'createdAt', 'status', 'customerName', 'customerPhone', 'customerEmail',
+  'slotDate', 'slotStart', 'slotEnd', 'subtotal', 'deliveryFee', 'total', 'paymentProvider', 'paymentStatus'
+];
+
+const ORDER_ITEM_CSV_COLUMNS = [
+  'orderId', 'createdAt', 'status', 'customerName', 'customerPhone',
+  'productId', 'name', 'unit', 'qty', 'unitPrice', 'price'
+];
+
 export const getAllOrders = async (req: AuthRequest, res: Response) => {
   try {
     const { page = '1', limit = '20', status, userId } = req.query;
@@ -53,12 +81,112 @@ export const getAllOrders = async (req: AuthRequest, res: Response) => {
   }
 };
 
+/**
+ * Stream orders created in a date range as CSV for accounting. `format=items`
+ * writes one row per order item instead of one per order. Orders are read
+ * through a cursor so large ranges are never held in memory.
+ */
+export const exportOrders = async (req: AuthRequest, res: Response) => {
+  try {
+    const { from, to, status, provider, format } = exportOrdersSchema.parse(req.query);
+
+    const query: any = {
+      createdAt: buildDateRange(from, to)
+    };
+
+    if (status) {
+      query.status = Array.isArray(status) ? { $in: status } : status;
+    }
+
+    if (provider) {
+      query['payment.provider'] = provider;
+    }
+
+    const cursor = Order.find(query)
+      .populate('userId', 'name email phone')
+      .sort({ createdAt: 1 })
+      .cursor();
+
+    const fileDate = (value: string) => new Date(value).toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="orders-${format}-${fileDate(from)}-${fileDate(to)}.csv"`);
+    res.write(toCsvRow(format === 'items' ? ORDER_ITEM_CSV_COLUMNS : ORDER_CSV_COLUMNS));
+
+    // Wait for the buffer to drain, or stop waiting if the client goes away
+    const write = async (row: unknown[]) => {
+      if (res.write(toCsvRow(row))) {
+        return;
+      }
+      const controller = new AbortController();
+      try {
+        await Promise.race([
+          once(res, 'drain', { signal: controller.signal }),
+          once(res, 'close', { signal: controller.signal })
+        ]);
+      } finally {
+        controller.abort();
+      }
+    };
+
+    try {
+      for await (const order of cursor) {
+        if (res.destroyed) {
+          break;
+        }
+
+        const customer = order.userId as any;
+
+        if (format === 'items') {
+          for (const item of order.items) {
+            await write([
+              order._id, order.createdAt, order.status, customer?.name, customer?.phone,
+              item.productId, item.name, item.unit, item.qty, item.unitPrice, item.price
+            ]);
+          }
+        } else {
+          await write([
+            order._id, order.createdAt, order.status, customer?.name, customer?.phone, customer?.email,
+            order.timeSlot?.date, order.timeSlot?.startTime, order.timeSlot?.endTime,
+            order.subtotal, order.deliveryFee, order.total, order.payment?.provider, order.payment?.status
+          ]);
+        }
+      }
+    } catch (error) {
+      // Headers are already sent, so the only option is to abort the download
+      logger.error('Export orders stream error:', error);
+      return res.destroy();
+    } finally {
+      await cursor.close();
+    }
+
+    if (!res.destroyed) {
+      res.end();
+    }
+  } catch (error) {
+    logger.error('Export orders error:', error);
+    if (res.headersSent) {
+      return res.destroy();
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: `${error.errors[0].path.join('.')}: ${error.errors[0].message}`
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export orders'
+    });
+  }
+};
+
 export const getOrderById = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
     
     const order = await Order.findById(id)
-      .populate('userId', 'name email phone');
+      .populate('userId', 'name email phone')
+      .populate('statusHistory.changedBy', 'name email');
 
     if (!order) {
       return res.status(404).json({
@@ -83,7 +211,7 @@ export const getOrderById = async (req: AuthRequest, res: Response) => {
 export const updateOrderStatus = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    const { status } = updateOrderStatusSchema.parse(req.body);
+    const { status, note } = updateOrderStatusSchema.parse(req.body);
 
     const order = await Order.findById(id);
     if (!order) {
@@ -93,11 +221,84 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    order.status = status;
-    await order.save();
+    // Only allow moves defined in the order status state machine
+    if (!canTransitionOrderStatus(order.status, status)) {
+      return res.status(409).json({
+        success: false,
+        error: `Cannot change order status from ${order.status} to ${status}`,
+        allowedStatuses: ORDER_STATUS_TRANSITIONS[order.status]
+      });
+    }
 
-    const updatedOrder = await Order.findById(order._id)
-      .populate('userId', 'name email phone');
+    // Stock is reserved on confirmation and released if a reserved order is cancelled
+    const reservesStock = status === 'confirmed' && !order.stockReserved;
+    const releasesStock = status === 'cancelled' && order.stockReserved;
+
+    const stockContext = { orderId: order._id, userId: req.user?._id };
+
+    if (reservesStock) {
+      const shortages = await reserveOrderStock(order.items, stockContext);
+      if (shortages.length > 0) {
+        return res.status(409).json({
+          success: false,
+          error: 'Insufficient stock for one or more items',
+          details: shortages
+        });
+      }
+    }
+
+    // Only apply the change if nobody else moved the order in the meantime
+    const updatedOrder = await Order.findOneAndUpdate(
+      { _id: order._id, status: order.status },
+      {
+        $set: { status, stockReserved: reservesStock || (order.stockReserved && !releasesStock) },
+        $push: {
+          statusHistory: {
+            from: order.status,
+            to: status,
+            changedBy: req.user?._id,
+            note,
+            changedAt: new Date()
+          }
+        }
+      },
+      { new: true }
+    )
+      .populate('userId', 'name email phone')
+      .populate('statusHistory.changedBy', 'name email');
+
+    if (!updatedOrder) {
+      if (reservesStock) {
+        await releaseOrderStock(order.items, { ...stockContext, note: 'Confirmation rolled back' });
+      }
+      return res.status(409).json({
+        success: false,
+        error: 'Order status was changed by someone else, please reload and try again'
+      });
+    }
+
+    if (releasesStock) {
+      await releaseOrderStock(order.items, { ...stockContext, note });
+    }
+
+    // Cancelling a paid order opens a pending refund for whatever was not yet refunded
+    if (status === 'cancelled' && isPaymentReceived(updatedOrder) && getRefundableAmount(updatedOrder) > 0) {
+      updatedOrder.refunds.push({
+        amount: getRefundableAmount(updatedOrder),
+        reason: 'Order cancelled',
+        status: 'pending',
+        createdBy: req.user?._id
+      });
+      await updatedOrder.save();
+    }
+
+    await recordAudit(req, {
+      action: 'status_change',
+      entityType: 'order',
+      entityId: order._id,
+      before: { status: order.status },
+      after: { status, note }
+    });
 
     res.json({
       success: true,
@@ -119,6 +320,43 @@ export const updateOrderStatus = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const getOrderInvoice = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const order = await Order.findById(id)
+      .populate('userId', 'name email phone');
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
+
+    // Cancelled orders keep an invoice issued before cancellation but never get a new one
+    if (order.status === 'cancelled' && !order.invoice?.number) {
+      return res.status(409).json({
+        success: false,
+        error: 'Cannot issue an invoice for a cancelled order'
+      });
+    }
+
+    const invoice = await ensureInvoice(order);
+    const filename = invoice.number.replace(/\//g, '-');
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`);
+    writeInvoicePdf(order, invoice, res);
+  } catch (error) {
+    logger.error('Get order invoice error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to generate invoice'
+    });
+  }
+};
+
 export const getOrderStats = async (req: AuthRequest, res: Response) => {
   try {
     const totalOrders = await Order.countDocuments();
@@ -0,0 +1,341 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Order } from '../models/Order';
+import { AuthRequest } from '../middlewares/auth';
+import { logger } from '../utils/logger';
+import { buildDateRange } from '../utils/dates';
+import { runInTransaction } from '../utils/transaction';
+import { recordAudit } from '../services/audit';
+import {
+  PaymentProvider,
+  WebhookSignatureError,
+  verifyWebhookSignature,
+  handlePaymentWebhook,
+  getRefundableAmount,
+  getPaidAmount,
+  isPaymentReceived,
+  syncRefundedStatus
+} from '../services/payments';
+
+// Refunds left pending longer than this are flagged in reconciliation
+const STUCK_REFUND_DAYS = 7;
+
+// Validation schemas
+const createRefundSchema = z.object({
+  amount: z.number().positive('Amount must be positive').optional(),
+  reason: z.string().trim().max(500, 'Reason is too long').optional(),
+  gatewayRefundId: z.string().trim().optional()
+});
+
+const updateRefundSchema = z.object({
+  status: z.enum(['processed', 'failed']),
+  gatewayRefundId: z.string().trim().optional(),
+  failureReason: z.string().trim().optional()
+});
+
+const dateParam = z.string().refine((value) => !isNaN(Date.parse(value)), 'Invalid date');
+
+const reconciliationSchema = z.object({
+  from: dateParam.optional(),
+  to: dateParam.optional()
+});
+
+// A refund request that cannot go ahead, with the status to answer it with
+class RefundRequestError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+  }
+}
+
+export const receivePaymentWebhook = async (req: Request, res: Response) => {
+  try {
+    const provider = req.params.provider as PaymentProvider;
+    if (provider !== 'razorpay' && provider !== 'stripe') {
+      return res.status(404).json({
+        success: false,
+        error: 'Unknown payment provider'
+      });
+    }
+
+    const signature = provider === 'razorpay' ? req.get('x-razorpay-signature') : req.get('stripe-signature');
+    verifyWebhookSignature(provider, (req as any).rawBody, signature);
+
+    const result = await handlePaymentWebhook(provider, req.body, req.get('x-razorpay-event-id'));
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    logger.error('Payment webhook error:', error);
+    if (error instanceof WebhookSignatureError) {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to process payment webhook'
+    });
+  }
+};
+
+export const markCodCollected = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const order = await Order.findById(id);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
+
+    if (order.payment.provider !== 'cod') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only cash on delivery orders can be marked as collected'
+      });
+    }
+
+    if (!['out_for_delivery', 'delivered'].includes(order.status)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Cash can only be collected once the order is out for delivery'
+      });
+    }
+
+    if (isPaymentReceived(order)) {
+      return res.status(409).json({
+        success: false,
+        error: 'Payment has already been collected'
+      });
+    }
+
+    const before = { paymentStatus: order.payment.status };
+
+    order.payment.status = 'paid';
+    order.payment.amountPaid = order.total;
+    order.payment.paidAt = new Date();
+    order.payment.collectedBy = req.user?._id;
+    await order.save();
+
+    await recordAudit(req, { action: 'update', entityType: 'order', entityId: order._id, before, after: { paymentStatus: order.payment.status, amountPaid: order.payment.amountPaid } });
+
+    res.json({
+      success: true,
+      data: order,
+      message: 'Cash payment marked as collected'
+    });
+  } catch (error) {
+    logger.error('Mark COD collected error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to mark payment as collected'
+    });
+  }
+};
+
+export const createRefund = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = createRefundSchema.parse(req.body);
+
+    // Check and add the refund in one transaction, so concurrent requests cannot both
+    // pass the refundable check and refund more than was paid
+    const { order, refund } = await runInTransaction(async (session) => {
+      const order = await Order.findById(id).session(session);
+      if (!order) {
+        throw new RefundRequestError('Order not found', 404);
+      }
+
+      if (!isPaymentReceived(order)) {
+        throw new RefundRequestError('No payment has been received for this order', 409);
+      }
+
+      // Omitting the amount refunds whatever is still refundable
+      const refundable = getRefundableAmount(order);
+      const amount = data.amount ?? refundable;
+      if (amount <= 0 || amount > refundable) {
+        throw new RefundRequestError(`Refund amount must be between 0 and ${refundable}`, 400);
+      }
+
+      order.refunds.push({
+        amount,
+        reason: data.reason,
+        gatewayRefundId: data.gatewayRefundId,
+        status: 'pending',
+        createdBy: req.user?._id
+      });
+      await order.save({ session });
+
+      return { order, refund: order.refunds[order.refunds.length - 1] };
+    });
+
+    await recordAudit(req, { action: 'create', entityType: 'order', entityId: order._id, after: { refund: refund.toObject() } });
+
+    res.status(201).json({
+      success: true,
+      data: refund
+    });
+  } catch (error) {
+    logger.error('Create refund error:', error);
+    if (error instanceof RefundRequestError) {
+      return res.status(error.status).json({
+        success: false,
+        error: error.message
+      });
+    }
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create refund'
+    });
+  }
+};
+
+export const updateRefund = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, refundId } = req.params;
+    const data = updateRefundSchema.parse(req.body);
+
+    const order = await Order.findById(id);
+    const refund = order?.refunds.id(refundId);
+    if (!order || !refund) {
+      return res.status(404).json({
+        success: false,
+        error: 'Refund not found'
+      });
+    }
+
+    // pending -> processed | failed; final states cannot change
+    if (refund.status !== 'pending') {
+      return res.status(409).json({
+        success: false,
+        error: `Refund is already ${refund.status}`
+      });
+    }
+
+    const before = { refund: refund.toObject() };
+
+    refund.status = data.status;
+    refund.gatewayRefundId = data.gatewayRefundId ?? refund.gatewayRefundId;
+    refund.processedAt = data.status === 'processed' ? new Date() : undefined;
+    refund.failureReason = data.status === 'failed' ? data.failureReason : undefined;
+    syncRefundedStatus(order);
+    await order.save();
+
+    await recordAudit(req, { action: 'update', entityType: 'order', entityId: order._id, before, after: { refund: refund.toObject() } });
+
+    res.json({
+      success: true,
+      data: refund
+    });
+  } catch (error) {
+    logger.error('Update refund error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update refund'
+    });
+  }
+};
+
+/**
+ * Flag orders whose payment state does not match their lifecycle:
+ * delivered but unpaid, cancelled after payment without a full refund,
+ * paid amount differing from the order total, and long-pending refunds.
+ */
+export const getPaymentReconciliation = async (req: Request, res: Response) => {
+  try {
+    const { from, to } = reconciliationSchema.parse(req.query);
+
+    const stuckBefore = new Date(Date.now() - STUCK_REFUND_DAYS * 24 * 60 * 60 * 1000);
+
+    const query: any = {
+      $or: [
+        { status: 'delivered', 'payment.status': { $in: ['created', 'pending', 'failed'] } },
+        { status: 'cancelled', 'payment.status': { $in: ['paid', 'partially_refunded'] } },
+        { 'payment.amountPaid': { $exists: true }, $expr: { $ne: ['$payment.amountPaid', '$total'] } },
+        { refunds: { $elemMatch: { status: 'pending', createdAt: { $lt: stuckBefore } } } }
+      ]
+    };
+
+    if (from || to) {
+      query.createdAt = buildDateRange(from, to);
+    }
+
+    const orders = await Order.find(query)
+      .populate('userId', 'name phone')
+      .sort({ createdAt: -1 });
+
+    const issues = orders.flatMap((order) => {
+      const flags: string[] = [];
+      const { status } = order.payment;
+
+      if (order.status === 'delivered' && ['created', 'pending', 'failed'].includes(status)) {
+        flags.push('delivered_unpaid');
+      }
+      if (order.status === 'cancelled' && isPaymentReceived(order) && status !== 'refunded') {
+        flags.push('cancelled_not_refunded');
+      }
+      if (order.payment.amountPaid !== undefined && order.payment.amountPaid !== order.total) {
+        flags.push('amount_mismatch');
+      }
+      if (order.refunds.some((refund) => refund.status === 'pending' && refund.createdAt < stuckBefore)) {
+        flags.push('refund_stuck');
+      }
+
+      if (flags.length === 0) {
+        return [];
+      }
+
+      return [{
+        orderId: order._id,
+        customer: order.userId,
+        status: order.status,
+        total: order.total,
+        payment: {
+          provider: order.payment.provider,
+          status,
+          amountPaid: getPaidAmount(order)
+        },
+        refundable: isPaymentReceived(order) ? getRefundableAmount(order) : 0,
+        flags,
+        createdAt: order.createdAt
+      }];
+    });
+
+    res.json({
+      success: true,
+      data: issues,
+      meta: {
+        total: issues.length
+      }
+    });
+  } catch (error) {
+    logger.error('Get payment reconciliation error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build payment reconciliation'
+    });
+  }
+};
@@ -0,0 +1,183 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { Order, IOrder } from '../models/Order';
+import { DeliverySlot } from '../models/DeliverySlot';
+import { AuthRequest } from '../middlewares/auth';
+import { logger } from '../utils/logger';
+import { escapeHtml } from '../utils/html';
+
+// Orders in these statuses are waiting to be picked
+const PICKABLE_STATUSES = ['confirmed', 'preparing'] as const;
+
+const pickingQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+  slotId: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid slot ID').optional(),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  format: z.enum(['html', 'json']).default('html')
+});
+
+type PickingQuery = z.infer<typeof pickingQuerySchema>;
+
+class SlotNotFoundError extends Error {}
+
+// Resolve the date/slot filters into an order query
+const buildPickingMatch = async ({ date, slotId, startTime, endTime }: PickingQuery) => {
+  const match: any = {
+    'timeSlot.date': date,
+    status: { $in: PICKABLE_STATUSES }
+  };
+
+  if (slotId) {
+    const slot = await DeliverySlot.findById(slotId);
+    if (!slot) {
+      throw new SlotNotFoundError('Delivery slot not found');
+    }
+    match['timeSlot.startTime'] = slot.startTime;
+    match['timeSlot.endTime'] = slot.endTime;
+  } else {
+    if (startTime) match['timeSlot.startTime'] = startTime;
+    if (endTime) match['timeSlot.endTime'] = endTime;
+  }
+
+  return match;
+};
+
+const handleError = (res: Response, error: unknown, action: string, message: string) => {
+  logger.error(`${action} error:`, error);
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      success: false,
+      error: error.errors[0].message
+    });
+  }
+  if (error instanceof SlotNotFoundError) {
+    return res.status(404).json({
+      success: false,
+      error: error.message
+    });
+  }
+  res.status(500).json({
+    success: false,
+    error: message
+  });
+};
+
+export const getPickingList = async (req: AuthRequest, res: Response) => {
+  try {
+    const params = pickingQuerySchema.parse(req.query);
+    const match = await buildPickingMatch(params);
+
+    const [items, orderCount] = await Promise.all([
+      Order.aggregate([
+        { $match: match },
+        { $unwind: '$items' },
+        // Order items are stored loosely, so normalise the product reference before grouping
+        { $addFields: { productRef: { $toObjectId: '$items.productId' } } },
+        {
+          $group: {
+            _id: { productId: '$productRef', unit: '$items.unit' },
+            name: { $last: '$items.name' },
+            quantity: { $sum: '$items.qty' },
+            orders: { $addToSet: '$_id' }
+          }
+        },
+        {
+          $project: {
+            _id: 0,
+            productId: '$_id.productId',
+            unit: '$_id.unit',
+            name: 1,
+            quantity: 1,
+            orderCount: { $size: '$orders' }
+          }
+        },
+        { $sort: { name: 1, unit: 1 } }
+      ]),
+      Order.countDocuments(match)
+    ]);
+
+    res.json({
+      success: true,
+      data: items,
+      meta: {
+        date: params.date,
+        startTime: match['timeSlot.startTime'],
+        endTime: match['timeSlot.endTime'],
+        orderCount
+      }
+    });
+  } catch (error) {
+    handleError(res, error, 'Get picking list', 'Failed to fetch picking list');
+  }
+};
+
+const renderPackingSlip = (order: IOrder) => {
+  const customer = order.userId as any;
+  const address = order.address;
+  const rows = order.items.map((item) => `
+        <tr><td>${escapeHtml(item.name)}</td><td>${escapeHtml(item.qty)} ${escapeHtml(item.unit)}</td><td class="check"></td></tr>`).join('');
+
+  return `
+  <section class="slip">
+    <h2>Order ${escapeHtml(order._id)}</h2>
+    <p><strong>${escapeHtml(customer?.name ?? address?.name)}</strong> &middot; ${escapeHtml(customer?.phone)}</p>
+    <p>${escapeHtml(address?.line1)}${address?.line2 ? `, ${escapeHtml(address.line2)}` : ''}, ${escapeHtml(address?.city)} ${escapeHtml(address?.pincode)}</p>
+    <p>Slot: ${escapeHtml(order.timeSlot?.date)} ${escapeHtml(order.timeSlot?.startTime)}&ndash;${escapeHtml(order.timeSlot?.endTime)} &middot; Payment: ${escapeHtml(order.payment?.provider)} (${escapeHtml(order.payment?.status)})</p>
+    <table>
+      <thead><tr><th>Item</th><th>Qty</th><th>Packed</th></tr></thead>
+      <tbody>${rows}
+      </tbody>
+    </table>
+  </section>`;
+};
+
+/**
+ * One packing slip per order for the date/slot. Returns a printable HTML
+ * page (one slip per printed page) by default, or the orders as JSON with
+ * `format=json`.
+ */
+export const getPackingSlips = async (req: AuthRequest, res: Response) => {
+  try {
+    const params = pickingQuerySchema.parse(req.query);
+    const match = await buildPickingMatch(params);
+
+    const orders = await Order.find(match)
+      .populate('userId', 'name phone')
+      .sort({ 'timeSlot.startTime': 1, createdAt: 1 });
+
+    if (params.format === 'json') {
+      return res.json({
+        success: true,
+        data: orders.map((order) => ({
+          orderId: order._id,
+          customer: order.userId,
+          address: order.address,
+          timeSlot: order.timeSlot,
+          payment: { provider: order.payment?.provider, status: order.payment?.status },
+          items: order.items.map((item) => ({ productId: item.productId, name: item.name, unit: item.unit, qty: item.qty }))
+        }))
+      });
+    }
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    res.send(`<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Packing slips ${escapeHtml(params.date)}</title>
+  <style>
+    body { font-family: sans-serif; margin: 24px; }
+    .slip { page-break-after: always; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1px solid #999; padding: 6px; text-align: left; }
+    .check { width: 60px; }
+  </style>
+</head>
+<body>${orders.length > 0 ? orders.map(renderPackingSlip).join('') : '\n  <p>No orders to pack.</p>'}
+</body>
+</html>`);
+  } catch (error) {
+    handleError(res, error, 'Get packing slips', 'Failed to fetch packing slips');
+  }
+};
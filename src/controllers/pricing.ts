@@ -0,0 +1,247 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { Product } from '../models/Product';
+import { PriceChange } from '../models/PriceChange';
+import { PriceSchedule } from '../models/PriceSchedule';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middlewares/auth';
+import { endPriceSchedule, projectPriceSchedules } from '../services/pricing';
+import { recordAudit } from '../services/audit';
+
+// Validation schemas
+const createPriceScheduleSchema = z.object({
+  unit: z.enum(['kg', 'g', 'pcs', 'bundle']),
+  price: z.number().positive().optional(),
+  compareAt: z.number().positive().nullable().optional(),
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date().optional(),
+  note: z.string().trim().max(500, 'Note is too long').optional()
+}).refine((data) => data.price !== undefined || data.compareAt !== undefined, {
+  message: 'Provide a price and/or compareAt to schedule'
+}).refine((data) => !data.endsAt || data.endsAt > data.startsAt, {
+  message: 'endsAt must be after startsAt'
+});
+
+const priceTimelineSchema = z.object({
+  unit: z.enum(['kg', 'g', 'pcs', 'bundle']).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+
+export const getPriceTimeline = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { unit, from, to } = priceTimelineSchema.parse(req.query);
+
+    const product = await Product.findById(id).select('name unitPrices');
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const query: any = { productId: product._id };
+
+    if (unit) {
+      query.unit = unit;
+    }
+
+    if (from || to) {
+      query.effectiveAt = {};
+      if (from) query.effectiveAt.$gte = from;
+      if (to) query.effectiveAt.$lte = to;
+    }
+
+    const history = await PriceChange.find(query)
+      .populate('changedBy', 'name email')
+      .sort({ effectiveAt: 1 });
+
+    const schedules = await PriceSchedule.find({
+      productId: product._id,
+      status: { $in: ['pending', 'active'] },
+      ...(unit ? { unit } : {})
+    }).sort({ startsAt: 1 });
+
+    const upcoming = projectPriceSchedules(schedules, product.unitPrices)
+      .sort((a, b) => a.effectiveAt.getTime() - b.effectiveAt.getTime());
+
+    res.json({
+      success: true,
+      data: {
+        productId: product._id,
+        name: product.name,
+        current: product.unitPrices.map(({ unit, price, compareAt }) => ({ unit, price, compareAt })),
+        history: history.map((entry) => ({ ...entry.toObject(), scheduled: false })),
+        upcoming
+      }
+    });
+  } catch (error) {
+    logger.error('Get price timeline error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch price timeline'
+    });
+  }
+};
+
+export const getPriceSchedules = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { status, unit } = req.query;
+
+    const query: any = { productId: id };
+
+    if (status) {
+      query.status = status;
+    }
+
+    if (unit) {
+      query.unit = unit;
+    }
+
+    const schedules = await PriceSchedule.find(query)
+      .populate('createdBy', 'name email')
+      .sort({ startsAt: -1 });
+
+    res.json({
+      success: true,
+      data: schedules
+    });
+  } catch (error) {
+    logger.error('Get price schedules error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch price schedules'
+    });
+  }
+};
+
+export const createPriceSchedule = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { compareAt, ...data } = createPriceScheduleSchema.parse(req.body);
+
+    const product = await Product.findOne({ _id: id, deletedAt: null }).select('unitPrices');
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    if (!product.unitPrices.some((up) => up.unit === data.unit)) {
+      return res.status(400).json({
+        success: false,
+        error: `Product has no ${data.unit} unit`
+      });
+    }
+
+    if (data.startsAt <= new Date()) {
+      return res.status(400).json({
+        success: false,
+        error: 'startsAt must be in the future'
+      });
+    }
+
+    // Open-ended schedules are a single change at startsAt
+    const endsAt = data.endsAt ?? data.startsAt;
+    const overlapping = (await PriceSchedule.find({
+      productId: product._id,
+      unit: data.unit,
+      status: { $in: ['pending', 'active'] },
+      startsAt: { $lte: endsAt }
+    })).find((schedule) => (schedule.endsAt ?? schedule.startsAt) >= data.startsAt);
+    if (overlapping) {
+      return res.status(409).json({
+        success: false,
+        error: 'Another price schedule for this unit overlaps that period',
+        scheduleId: overlapping._id
+      });
+    }
+
+    const schedule = await PriceSchedule.create({
+      ...data,
+      productId: product._id,
+      compareAt: compareAt ?? undefined,
+      clearCompareAt: compareAt === null,
+      createdBy: req.user?._id
+    });
+
+    await recordAudit(req, { action: 'update', entityType: 'product', entityId: product._id, after: { priceSchedule: schedule.toObject() } });
+
+    res.status(201).json({
+      success: true,
+      data: schedule
+    });
+  } catch (error) {
+    logger.error('Create price schedule error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create price schedule'
+    });
+  }
+};
+
+export const cancelPriceSchedule = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, scheduleId } = req.params;
+
+    const schedule = await PriceSchedule.findOne({ _id: scheduleId, productId: id });
+    if (!schedule) {
+      return res.status(404).json({
+        success: false,
+        error: 'Price schedule not found'
+      });
+    }
+
+    if (schedule.status === 'pending') {
+      const cancelled = await PriceSchedule.findOneAndUpdate(
+        { _id: schedule._id, status: 'pending' },
+        { $set: { status: 'cancelled', endedAt: new Date() } },
+        { new: true }
+      );
+      if (!cancelled) {
+        return res.status(409).json({
+          success: false,
+          error: 'Price schedule started while cancelling; try again'
+        });
+      }
+    } else if (schedule.status === 'active') {
+      // Ending a running schedule early puts the previous price back now
+      await endPriceSchedule(schedule, new Date(), req.user?._id);
+    } else {
+      return res.status(409).json({
+        success: false,
+        error: `Price schedule is already ${schedule.status}`
+      });
+    }
+
+    const updated = await PriceSchedule.findById(schedule._id);
+
+    await recordAudit(req, { action: 'update', entityType: 'product', entityId: schedule.productId, before: { priceSchedule: schedule.toObject() }, after: { priceSchedule: updated?.toObject() } });
+
+    res.json({
+      success: true,
+      data: updated
+    });
+  } catch (error) {
+    logger.error('Cancel price schedule error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel price schedule'
+    });
+  }
+};
@@ -1,8 +1,17 @@
 import { Request, Response } from 'express';
 import { z } from 'zod';
-import { Product } from '../models/Product';
+import mongoose from 'mongoose';
+import { Product, IUnitPrice } from '../models/Product';
 import { Category } from '../models/Category';
+import { StockMovement, STOCK_MOVEMENT_REASONS } from '../models/StockMovement';
+import { Order } from '../models/Order';
+import { applyStockDelta, getAvailableStock, recordStockMovement } from '../services/inventory';
+import { recordAudit } from '../services/audit';
+import { getDescendantCategoryIds } from '../services/categories';
+import { recordPriceChanges } from '../services/pricing';
+import { removeOrphanedUploads } from '../services/uploads';
 import { logger } from '../utils/logger';
+import { toCsvRow, parseCsvRecords } from '../utils/csv';
 import { AuthRequest } from '../middlewares/auth';
 
 // Validation schemas
@@ -12,7 +21,9 @@ const unitPriceSchema = z.object({
   baseQty: z.number().positive(),
   price: z.number().positive(),
   compareAt: z.number().positive().optional(),
-  stock: z.number().min(0)
+  stock: z.number().min(0),
+  // Omitted on update keeps the unit's current threshold; new units default to 0
+  reorderThreshold: z.number().min(0).optional()
 });
 
 const createProductSchema = z.object({
@@ -35,52 +46,258 @@ const updateProductSchema = z.object({
   isActive: z.boolean().optional()
 });
 
+const productImagesSchema = z.object({
+  images: z.array(z.string().url('Invalid image URL')).min(1, 'At least one image is required')
+});
+
+const stockAdjustmentSchema = z.object({
+  unit: z.enum(['kg', 'g', 'pcs', 'bundle']),
+  delta: z.number().refine((value) => value !== 0, 'Delta must not be zero'),
+  reason: z.enum(['restock', 'spoilage', 'correction']),
+  note: z.string().trim().max(500, 'Note is too long').optional()
+}).refine((data) => data.reason !== 'restock' || data.delta > 0, {
+  message: 'Restock delta must be positive'
+}).refine((data) => data.reason !== 'spoilage' || data.delta < 0, {
+  message: 'Spoilage delta must be negative'
+});
+
+const stockMovementsQuerySchema = z.object({
+  unit: z.enum(['kg', 'g', 'pcs', 'bundle']).optional(),
+  reason: z.enum(STOCK_MOVEMENT_REASONS).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  page: z.coerce.number().int().min(1).default(1)
+});
+
+const PRODUCT_CSV_COLUMNS = [
+  'slug', 'name', 'category', 'description', 'images', 'isActive', 'rating',
+  'unit', 'step', 'baseQty', 'price', 'compareAt', 'stock', 'reorderThreshold'
+];
+
+// Fill in thresholds the caller left out from the product's current units
+const keepReorderThresholds = <T extends { unit: IUnitPrice['unit']; reorderThreshold?: number }>(
+  unitPrices: T[],
+  current: IUnitPrice[]
+) => unitPrices.map((up) => ({
+  ...up,
+  reorderThreshold: up.reorderThreshold ?? current.find((existing) => existing.unit === up.unit)?.reorderThreshold ?? 0
+}));
+
+// Stock only changes through orders and stock adjustments, so units the product
+// already has keep their current stock; new units start with the given stock
+const keepCurrentStock = <T extends { unit: IUnitPrice['unit']; stock: number }>(
+  unitPrices: T[],
+  current: IUnitPrice[]
+) => unitPrices.map((up) => ({
+  ...up,
+  stock: current.find((existing) => existing.unit === up.unit)?.stock ?? up.stock
+}));
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+const toSlug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+
+// Record the stock difference per unit against the previous values as ledger movements
+const recordStockChanges = async (
+  req: AuthRequest,
+  productId: mongoose.Types.ObjectId,
+  unitPrices: Pick<IUnitPrice, 'unit' | 'stock'>[],
+  previousStock: Map<string, number>,
+  reason: 'restock' | 'correction',
+  note: string
+) => {
+  await Promise.all(unitPrices
+    .filter((up) => up.stock !== (previousStock.get(up.unit) ?? 0))
+    .map((up) => recordStockMovement(productId, up.unit, up.stock - (previousStock.get(up.unit) ?? 0), reason, {
+      userId: req.user?._id,
+      stockAfter: up.stock,
+      note
+    })));
+};
+
+const categoryFilter = async (category: string, includeSubcategories: boolean) => {
+  const categoryId = new mongoose.Types.ObjectId(category);
+  if (!includeSubcategories) {
+    return categoryId;
+  }
+  return { $in: [categoryId, ...await getDescendantCategoryIds(categoryId)] };
+};
+
+// Price sorts use a product's cheapest unit, stock sorts its total stock
+const PRODUCT_SORTS: Record<string, Record<string, 1 | -1 | { $meta: 'textScore' }>> = {
+  relevance: { score: { $meta: 'textScore' }, _id: 1 },
+  newest: { createdAt: -1, _id: 1 },
+  name: { name: 1, _id: 1 },
+  '-name': { name: -1, _id: 1 },
+  price: { minPrice: 1, _id: 1 },
+  '-price': { minPrice: -1, _id: 1 },
+  stock: { totalStock: 1, _id: 1 },
+  '-stock': { totalStock: -1, _id: 1 },
+  updatedAt: { updatedAt: 1, _id: 1 },
+  '-updatedAt': { updatedAt: -1, _id: 1 }
+};
+
+const productSearchSchema = z.object({
+  q: z.string().trim().max(200, 'Search is too long').optional(),
+  category: z.string().regex(/^[0-9a-fA-F]{24}$/, 'Invalid category ID').optional(),
+  includeSubcategories: z.enum(['true', 'false']).optional(),
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  inStock: z.enum(['true', 'false']).optional(),
+  unit: z.enum(['kg', 'g', 'pcs', 'bundle']).optional(),
+  isActive: z.enum(['true', 'false']).optional(),
+  sort: z.enum(Object.keys(PRODUCT_SORTS) as [string, ...string[]], {
+    errorMap: () => ({ message: `Invalid sort; use one of ${Object.keys(PRODUCT_SORTS).join(', ')}` })
+  }).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  page: z.coerce.number().int().min(1).default(1)
+});
+
 export const getProducts = async (req: Request, res: Response) => {
   try {
-    const { category, q, limit = '50', page = '1', isActive } = req.query;
-    
-    const query: any = {};
-    
-    if (category) {
-      query.categoryId = category;
+    const {
+      category,
+      includeSubcategories,
+      q,
+      minPrice,
+      maxPrice,
+      inStock,
+      unit,
+      sort,
+      limit: limitNum,
+      page: pageNum,
+      isActive
+    } = productSearchSchema.parse(req.query);
+
+    const search = q ?? '';
+    const sortKey = sort ?? (search ? 'relevance' : 'newest');
+    if (sortKey === 'relevance' && !search) {
+      return res.status(400).json({
+        success: false,
+        error: 'Sorting by relevance needs q'
+      });
     }
-    
-    if (q) {
-      const searchRegex = new RegExp(q as string, 'i');
-      query.$or = [
-        { name: searchRegex },
-        { description: searchRegex }
-      ];
+
+    const query: any = { deletedAt: null };
+
+    // $text must be part of the first $match stage
+    if (search) {
+      query.$text = { $search: search };
+    }
+
+    if (category) {
+      query.categoryId = await categoryFilter(category, includeSubcategories === 'true');
     }
 
     if (isActive !== undefined) {
       query.isActive = isActive === 'true';
     }
 
-    const limitNum = parseInt(limit as string);
-    const pageNum = parseInt(page as string);
+    // Price, stock and unit filters must all hold for the same unit
+    const unitMatch: any = {};
+    if (minPrice !== undefined || maxPrice !== undefined) {
+      unitMatch.price = {};
+      if (minPrice !== undefined) unitMatch.price.$gte = minPrice;
+      if (maxPrice !== undefined) unitMatch.price.$lte = maxPrice;
+    }
+    if (inStock === 'true') {
+      unitMatch.stock = { $gt: 0 };
+    }
+    if (unit) {
+      unitMatch.unit = unit;
+    }
+    if (Object.keys(unitMatch).length > 0) {
+      query.unitPrices = { $elemMatch: unitMatch };
+    }
+
     const skip = (pageNum - 1) * limitNum;
 
-    const products = await Product.find(query)
-      .populate('categoryId', 'name')
-      .sort({ createdAt: -1 })
-      .limit(limitNum)
-      .skip(skip);
+    const [result] = await Product.aggregate([
+      { $match: query },
+      {
+        $addFields: {
+          minPrice: { $min: '$unitPrices.price' },
+          totalStock: { $sum: '$unitPrices.stock' },
+          ...(search ? { score: { $meta: 'textScore' } } : {})
+        }
+      },
+      {
+        $facet: {
+          data: [
+            { $sort: PRODUCT_SORTS[sortKey] },
+            { $skip: skip },
+            { $limit: limitNum },
+            {
+              $lookup: {
+                from: Category.collection.name,
+                localField: 'categoryId',
+                foreignField: '_id',
+                as: 'category'
+              }
+            },
+            // Same shape as populate('categoryId', 'name')
+            {
+              $set: {
+                categoryId: {
+                  $let: {
+                    vars: { category: { $arrayElemAt: ['$category', 0] } },
+                    in: { $cond: ['$$category', { _id: '$$category._id', name: '$$category.name' }, null] }
+                  }
+                }
+              }
+            },
+            { $project: { category: 0, minPrice: 0, totalStock: 0 } }
+          ],
+          total: [{ $count: 'count' }],
+          categories: [
+            { $group: { _id: '$categoryId', count: { $sum: 1 } } },
+            {
+              $lookup: {
+                from: Category.collection.name,
+                localField: '_id',
+                foreignField: '_id',
+                as: 'category'
+              }
+            },
+            { $project: { _id: 0, categoryId: '$_id', name: { $arrayElemAt: ['$category.name', 0] }, count: 1 } },
+            { $sort: { count: -1, name: 1 } }
+          ],
+          units: [
+            { $unwind: '$unitPrices' },
+            { $group: { _id: '$unitPrices.unit', products: { $addToSet: '$_id' } } },
+            { $project: { _id: 0, unit: '$_id', count: { $size: '$products' } } },
+            { $sort: { count: -1, unit: 1 } }
+          ]
+        }
+      }
+    ]);
 
-    const total = await Product.countDocuments(query);
+    const total = result.total[0]?.count ?? 0;
 
     res.json({
       success: true,
-      data: products,
+      data: result.data,
       meta: {
         total,
         page: pageNum,
         limit: limitNum,
-        pages: Math.ceil(total / limitNum)
+        pages: Math.ceil(total / limitNum),
+        sort: sortKey,
+        facets: {
+          categories: result.categories,
+          units: result.units
+        }
       }
     });
   } catch (error) {
     logger.error('Get products error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to fetch products'
@@ -88,6 +305,326 @@ export const getProducts = async (req: Request, res: Response) => {
   }
 };
 
+export const getLowStockProducts = async (req: Request, res: Response) => {
+  try {
+    // Every active product unit at or below its reorder threshold, most urgent first
+    const items = await Product.aggregate([
+      { $match: { isActive: true, deletedAt: null } },
+      { $unwind: '$unitPrices' },
+      { $match: { $expr: { $lte: ['$unitPrices.stock', { $ifNull: ['$unitPrices.reorderThreshold', 0] }] } } },
+      {
+        $lookup: {
+          from: Category.collection.name,
+          localField: 'categoryId',
+          foreignField: '_id',
+          as: 'category'
+        }
+      },
+      {
+        $project: {
+          _id: 0,
+          productId: '$_id',
+          name: 1,
+          slug: 1,
+          categoryId: 1,
+          categoryName: { $arrayElemAt: ['$category.name', 0] },
+          unit: '$unitPrices.unit',
+          stock: '$unitPrices.stock',
+          reorderThreshold: { $ifNull: ['$unitPrices.reorderThreshold', 0] },
+          shortfall: { $subtract: [{ $ifNull: ['$unitPrices.reorderThreshold', 0] }, '$unitPrices.stock'] }
+        }
+      },
+      { $sort: { shortfall: -1, name: 1 } }
+    ]);
+
+    res.json({
+      success: true,
+      data: items,
+      meta: {
+        total: items.length
+      }
+    });
+  } catch (error) {
+    logger.error('Get low stock products error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch low stock products'
+    });
+  }
+};
+
+export const exportProducts = async (req: Request, res: Response) => {
+  try {
+    const { category, includeSubcategories, isActive } = req.query;
+
+    if (category && !mongoose.isValidObjectId(category)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid category ID'
+      });
+    }
+
+    const query: any = { deletedAt: null };
+
+    if (category) {
+      query.categoryId = await categoryFilter(category as string, includeSubcategories === 'true');
+    }
+
+    if (isActive !== undefined) {
+      query.isActive = isActive === 'true';
+    }
+
+    const products = await Product.find(query)
+      .populate('categoryId', 'name')
+      .sort({ name: 1 });
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', 'attachment; filename="products.csv"');
+    res.write(toCsvRow(PRODUCT_CSV_COLUMNS));
+
+    // One row per product/unit price; product fields repeat on every row
+    for (const product of products) {
+      const categoryName = (product.categoryId as any)?.name ?? '';
+      for (const up of product.unitPrices) {
+        res.write(toCsvRow([
+          product.slug,
+          product.name,
+          categoryName,
+          product.description,
+          product.images.join('|'),
+          product.isActive,
+          product.rating,
+          up.unit,
+          up.step,
+          up.baseQty,
+          up.price,
+          up.compareAt,
+          up.stock,
+          up.reorderThreshold
+        ]));
+      }
+    }
+
+    res.end();
+  } catch (error) {
+    logger.error('Export products error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to export products'
+    });
+  }
+};
+
+interface ImportRowError {
+  row: number;
+  slug: string;
+  error: string;
+}
+
+const parseCsvNumber = (value: string) => (value === '' ? undefined : Number(value));
+
+const parseCsvBoolean = (value: string) => {
+  if (value === '') return undefined;
+  return ['true', '1', 'yes', 'y'].includes(value.toLowerCase());
+};
+
+/**
+ * Upsert products by slug from a CSV in the export format. Rows sharing a
+ * slug (or a name, when slug is blank) form one product; each row is one
+ * unit price. Unmatched slugs create new products, whose slug is generated
+ * from the name. A product with any invalid row is skipped as a whole.
+ * With `?dryRun=true` nothing is written and the same summary is returned.
+ */
+export const importProducts = async (req: AuthRequest, res: Response) => {
+  try {
+    const dryRun = req.query.dryRun === 'true';
+    const csv = typeof req.body === 'string' ? req.body : req.body?.csv;
+
+    if (typeof csv !== 'string' || csv.trim() === '') {
+      return res.status(400).json({
+        success: false,
+        error: 'CSV content is required'
+      });
+    }
+
+    const records = parseCsvRecords(csv);
+    const missingColumns = ['name', 'category', 'unit', 'price', 'stock']
+      .filter((column) => records.length > 0 && !(column in records[0]));
+    if (records.length === 0 || missingColumns.length > 0) {
+      return res.status(400).json({
+        success: false,
+        error: records.length === 0 ? 'CSV has no data rows' : `Missing columns: ${missingColumns.join(', ')}`
+      });
+    }
+
+    // Group rows into products; row numbers are 1-based and include the header
+    const groups = new Map<string, { row: number; record: Record<string, string> }[]>();
+    records.forEach((record, index) => {
+      const slug = record.slug || toSlug(record.name || '');
+      const rows = groups.get(slug) ?? [];
+      rows.push({ row: index + 2, record });
+      groups.set(slug, rows);
+    });
+
+    const categories = await Category.find({ deletedAt: null }).select('name');
+    const categoryIds = new Map(categories.map((c) => [c.name.toLowerCase(), c._id.toString()]));
+    const existingProducts = await Product.find({ slug: { $in: Array.from(groups.keys()) } });
+    const existingBySlug = new Map(existingProducts.map((p) => [p.slug, p]));
+
+    const errors: ImportRowError[] = [];
+    const summary = { rows: records.length, created: 0, updated: 0, skipped: 0 };
+    // First row using each product name, so repeats within the file are caught in dry runs too
+    const namesInFile = new Map<string, number>();
+
+    for (const [slug, rows] of groups) {
+      const first = rows[0].record;
+      const groupErrors: ImportRowError[] = [];
+      const addError = (row: number, error: string) => groupErrors.push({ row, slug, error });
+
+      const categoryId = categoryIds.get((first.category || '').toLowerCase());
+      if (!slug) {
+        addError(rows[0].row, 'Name or slug is required');
+      } else if (!SLUG_PATTERN.test(slug)) {
+        addError(rows[0].row, `Invalid slug "${slug}"; use lowercase letters, numbers and dashes`);
+      }
+
+      const nameKey = (first.name || '').trim().toLowerCase();
+      const firstNameRow = namesInFile.get(nameKey);
+      if (nameKey && firstNameRow !== undefined) {
+        addError(rows[0].row, `Name "${first.name}" is already used by row ${firstNameRow} of this file`);
+      } else if (nameKey) {
+        namesInFile.set(nameKey, rows[0].row);
+      }
+      if (!categoryId) {
+        addError(rows[0].row, `Unknown category "${first.category}"`);
+      }
+
+      const units = rows.map(({ record }) => record.unit);
+      rows.forEach(({ row, record }, index) => {
+        if (units.indexOf(record.unit) !== index) {
+          addError(row, `Duplicate unit "${record.unit}"`);
+        }
+      });
+
+      const isActive = parseCsvBoolean(first.isActive ?? '');
+      const parsed = createProductSchema.safeParse({
+        name: first.name,
+        categoryId: categoryId ?? '',
+        images: first.images ? first.images.split('|').map((url) => url.trim()).filter(Boolean) : [],
+        description: first.description || undefined,
+        rating: parseCsvNumber(first.rating ?? ''),
+        isActive,
+        unitPrices: rows.map(({ record }) => ({
+          unit: record.unit,
+          step: parseCsvNumber(record.step ?? '') ?? 1,
+          baseQty: parseCsvNumber(record.baseQty ?? '') ?? 1,
+          price: parseCsvNumber(record.price),
+          compareAt: parseCsvNumber(record.compareAt ?? ''),
+          stock: parseCsvNumber(record.stock),
+          reorderThreshold: parseCsvNumber(record.reorderThreshold ?? '')
+        }))
+      });
+
+      if (!parsed.success) {
+        for (const issue of parsed.error.errors) {
+          // Unit price issues point at the row they came from
+          const row = issue.path[0] === 'unitPrices' && typeof issue.path[1] === 'number'
+            ? rows[issue.path[1]].row
+            : rows[0].row;
+          if (issue.path[0] !== 'categoryId' || categoryId) {
+            addError(row, `${issue.path.join('.')}: ${issue.message}`);
+          }
+        }
+      }
+
+      const existing = existingBySlug.get(slug);
+      if (parsed.success) {
+        const nameTaken = await Product.findOne({ name: parsed.data.name, slug: { $ne: slug }, deletedAt: null }).select('_id');
+        if (nameTaken) {
+          addError(rows[0].row, 'Another product already uses this name');
+        }
+      }
+
+      if (groupErrors.length > 0 || !parsed.success) {
+        errors.push(...groupErrors);
+        summary.skipped += rows.length;
+        continue;
+      }
+
+      if (existing) {
+        summary.updated++;
+      } else {
+        summary.created++;
+      }
+
+      if (dryRun) {
+        continue;
+      }
+
+      // A failed write skips this product only; earlier products stay imported
+      try {
+        if (existing) {
+          const before = existing.toObject();
+          const previousStock = new Map(existing.unitPrices.map((up) => [up.unit, up.stock]));
+
+          // A blank isActive cell keeps the product's current state; stock is only set for new units
+          Object.assign(existing, {
+            ...parsed.data,
+            isActive: isActive ?? existing.isActive,
+            unitPrices: keepCurrentStock(keepReorderThresholds(parsed.data.unitPrices, existing.unitPrices), existing.unitPrices)
+          });
+          // The slug identifies the product in the file, so a rename must not regenerate it
+          existing.markModified('slug');
+          await existing.save();
+
+          await recordAudit(req, { action: 'update', entityType: 'product', entityId: existing._id, before, after: existing });
+          await recordStockChanges(req, existing._id, existing.unitPrices, previousStock, 'restock', 'Opening stock (CSV import)');
+          await recordPriceChanges(existing._id, before.unitPrices, existing.unitPrices, 'import', { userId: req.user?._id });
+          await removeOrphanedUploads(before.images.filter((url: string) => !existing.images.includes(url)));
+        } else {
+          const product = await Product.create({ ...parsed.data, slug });
+
+          await recordAudit(req, { action: 'create', entityType: 'product', entityId: product._id, after: product });
+          await recordStockChanges(req, product._id, product.unitPrices, new Map(), 'restock', 'Opening stock (CSV import)');
+          await recordPriceChanges(product._id, [], product.unitPrices, 'import', { userId: req.user?._id });
+        }
+      } catch (error: any) {
+        logger.error(`Import product ${slug} error:`, error);
+        if (existing) {
+          summary.updated--;
+        } else {
+          summary.created--;
+        }
+        summary.skipped += rows.length;
+        errors.push({
+          row: rows[0].row,
+          slug,
+          error: error?.code === 11000
+            ? 'Another product already uses this slug'
+            : error instanceof mongoose.Error.VersionError
+              ? 'Product stock changed while importing; please try again'
+              : 'Failed to save product'
+        });
+      }
+    }
+
+    res.json({
+      success: true,
+      data: {
+        dryRun,
+        summary,
+        errors
+      }
+    });
+  } catch (error) {
+    logger.error('Import products error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to import products'
+    });
+  }
+};
+
 export const getProductById = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
@@ -120,7 +657,7 @@ export const createProduct = async (req: AuthRequest, res: Response) => {
     const data = createProductSchema.parse(req.body);
 
     // Verify category exists
-    const category = await Category.findById(data.categoryId);
+    const category = await Category.findOne({ _id: data.categoryId, deletedAt: null });
     if (!category) {
       return res.status(400).json({
         success: false,
@@ -129,7 +666,7 @@ export const createProduct = async (req: AuthRequest, res: Response) => {
     }
 
     // Check if product with same name exists
-    const existingProduct = await Product.findOne({ name: data.name });
+    const existingProduct = await Product.findOne({ name: data.name, deletedAt: null });
     if (existingProduct) {
       return res.status(400).json({
         success: false,
@@ -147,6 +684,12 @@ export const createProduct = async (req: AuthRequest, res: Response) => {
       slug
     });
 
+    await recordAudit(req, { action: 'create', entityType: 'product', entityId: product._id, after: product });
+
+    // Opening stock counts as the first restock in the ledger
+    await recordStockChanges(req, product._id, product.unitPrices, new Map(), 'restock', 'Opening stock');
+    await recordPriceChanges(product._id, [], product.unitPrices, 'create', { userId: req.user?._id });
+
     const populatedProduct = await Product.findById(product._id)
       .populate('categoryId', 'name');
 
@@ -175,7 +718,7 @@ export const updateProduct = async (req: AuthRequest, res: Response) => {
     const data = updateProductSchema.parse(req.body);
 
     // Check if product exists
-    const product = await Product.findById(id);
+    const product = await Product.findOne({ _id: id, deletedAt: null });
     if (!product) {
       return res.status(404).json({
         success: false,
@@ -183,9 +726,9 @@ export const updateProduct = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    // Verify category exists if being updated
-    if (data.categoryId) {
-      const category = await Category.findById(data.categoryId);
+    // Verify category exists if being updated, or before reactivating a product whose category was deleted
+    if (data.categoryId || data.isActive) {
+      const category = await Category.findOne({ _id: data.categoryId ?? product.categoryId, deletedAt: null });
       if (!category) {
         return res.status(400).json({
           success: false,
@@ -196,7 +739,7 @@ export const updateProduct = async (req: AuthRequest, res: Response) => {
 
     // Check if name is being updated and already exists
     if (data.name && data.name !== product.name) {
-      const existingProduct = await Product.findOne({ name: data.name });
+      const existingProduct = await Product.findOne({ name: data.name, deletedAt: null });
       if (existingProduct) {
         return res.status(400).json({
           success: false,
@@ -205,9 +748,29 @@ export const updateProduct = async (req: AuthRequest, res: Response) => {
       }
     }
 
-    Object.assign(product, data);
+    const before = product.toObject();
+    const previousStock = new Map(product.unitPrices.map((up) => [up.unit, up.stock]));
+
+    Object.assign(product, {
+      ...data,
+      ...(data.unitPrices
+        ? { unitPrices: keepCurrentStock(keepReorderThresholds(data.unitPrices, product.unitPrices), product.unitPrices) }
+        : {})
+    });
     await product.save();
 
+    await recordAudit(req, { action: 'update', entityType: 'product', entityId: product._id, before, after: product });
+
+    // Existing units keep their stock, so only new units add opening stock to the ledger
+    if (data.unitPrices) {
+      await recordStockChanges(req, product._id, product.unitPrices, previousStock, 'restock', 'Opening stock');
+      await recordPriceChanges(product._id, before.unitPrices, product.unitPrices, 'manual', { userId: req.user?._id });
+    }
+
+    if (data.images) {
+      await removeOrphanedUploads(before.images.filter((url: string) => !product.images.includes(url)));
+    }
+
     const updatedProduct = await Product.findById(product._id)
       .populate('categoryId', 'name');
 
@@ -223,6 +786,12 @@ export const updateProduct = async (req: AuthRequest, res: Response) => {
         error: error.errors[0].message
       });
     }
+    if (error instanceof mongoose.Error.VersionError) {
+      return res.status(409).json({
+        success: false,
+        error: 'Product stock changed while saving; please try again'
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to update product'
@@ -234,7 +803,7 @@ export const deleteProduct = async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
 
-    const product = await Product.findById(id);
+    const product = await Product.findOne({ _id: id, deletedAt: null });
     if (!product) {
       return res.status(404).json({
         success: false,
@@ -242,11 +811,19 @@ export const deleteProduct = async (req: AuthRequest, res: Response) => {
       });
     }
 
-    await Product.findByIdAndDelete(id);
+    const before = product.toObject();
+
+    // Free the slug for new products; restore derives it from the name again
+    product.slug = `${product.slug}--deleted-${product._id}`;
+    product.deletedAt = new Date();
+    product.deletedBy = req.user?._id;
+    await product.save();
+
+    await recordAudit(req, { action: 'delete', entityType: 'product', entityId: product._id, before, after: product });
 
     res.json({
       success: true,
-      message: 'Product deleted successfully'
+      message: 'Product moved to trash'
     });
   } catch (error) {
     logger.error('Delete product error:', error);
@@ -257,3 +834,294 @@ export const deleteProduct = async (req: AuthRequest, res: Response) => {
   }
 };
 
+export const getTrashedProducts = async (req: Request, res: Response) => {
+  try {
+    const { limit = '50', page = '1' } = req.query;
+
+    const query = { deletedAt: { $ne: null } };
+
+    const limitNum = parseInt(limit as string);
+    const pageNum = parseInt(page as string);
+    const skip = (pageNum - 1) * limitNum;
+
+    const products = await Product.find(query)
+      .populate('categoryId', 'name deletedAt')
+      .populate('deletedBy', 'name email')
+      .sort({ deletedAt: -1 })
+      .limit(limitNum)
+      .skip(skip);
+
+    const total = await Product.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: products,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    logger.error('Get trashed products error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch trashed products'
+    });
+  }
+};
+
+export const restoreProduct = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const product = await Product.findOne({ _id: id, deletedAt: { $ne: null } });
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found in trash'
+      });
+    }
+
+    const slug = toSlug(product.name);
+    const conflict = await Product.findOne({ _id: { $ne: product._id }, $or: [{ name: product.name }, { slug }], deletedAt: null });
+    if (conflict) {
+      return res.status(409).json({
+        success: false,
+        error: `Another product already uses the name or slug of ${product.name}; rename it first`
+      });
+    }
+
+    const category = await Category.findOne({ _id: product.categoryId, deletedAt: null });
+    if (!category) {
+      return res.status(409).json({
+        success: false,
+        error: 'The product\'s category no longer exists; restore the category first'
+      });
+    }
+
+    const before = product.toObject();
+
+    product.slug = slug;
+    product.deletedAt = null;
+    product.deletedBy = undefined;
+    await product.save();
+
+    await recordAudit(req, { action: 'restore', entityType: 'product', entityId: product._id, before, after: product });
+
+    const restoredProduct = await Product.findById(product._id)
+      .populate('categoryId', 'name');
+
+    res.json({
+      success: true,
+      data: restoredProduct
+    });
+  } catch (error) {
+    logger.error('Restore product error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore product'
+    });
+  }
+};
+
+export const purgeProduct = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const product = await Product.findOne({ _id: id, deletedAt: { $ne: null } });
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found in trash'
+      });
+    }
+
+    // Order history keeps pointing at the product, so it must stay. Order items
+    // are stored loosely and may hold the id as a string or an ObjectId.
+    const orders = await Order.countDocuments({ 'items.productId': { $in: [product._id, String(product._id)] } });
+    if (orders > 0) {
+      return res.status(409).json({
+        success: false,
+        error: `Product is referenced by ${orders} orders and cannot be permanently deleted`
+      });
+    }
+
+    await Product.deleteOne({ _id: product._id });
+
+    await recordAudit(req, { action: 'purge', entityType: 'product', entityId: product._id, before: product });
+    await removeOrphanedUploads(product.images);
+
+    res.json({
+      success: true,
+      message: 'Product permanently deleted'
+    });
+  } catch (error) {
+    logger.error('Purge product error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to purge product'
+    });
+  }
+};
+
+export const updateProductImages = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { images } = productImagesSchema.parse(req.body);
+
+    const product = await Product.findOne({ _id: id, deletedAt: null });
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const before = product.toObject();
+
+    // The list is the new order; images left out are removed
+    product.images = [...new Set(images)];
+    await product.save();
+
+    await recordAudit(req, { action: 'update', entityType: 'product', entityId: product._id, before, after: product });
+    const removedFiles = await removeOrphanedUploads(before.images.filter((url: string) => !product.images.includes(url)));
+
+    res.json({
+      success: true,
+      data: product,
+      meta: { removedFiles }
+    });
+  } catch (error) {
+    logger.error('Update product images error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update product images'
+    });
+  }
+};
+
+export const createStockAdjustment = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { unit, delta, reason, note } = stockAdjustmentSchema.parse(req.body);
+
+    const product = await Product.findOne({ _id: id, deletedAt: null });
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    if (!product.unitPrices.some((up) => up.unit === unit)) {
+      return res.status(400).json({
+        success: false,
+        error: `Product has no ${unit} unit price`
+      });
+    }
+
+    const stockAfter = await applyStockDelta(product._id, unit, delta);
+    if (stockAfter === null) {
+      return res.status(409).json({
+        success: false,
+        error: 'Insufficient stock for this adjustment',
+        available: await getAvailableStock(product._id, unit)
+      });
+    }
+
+    const movement = await recordStockMovement(product._id, unit, delta, reason, {
+      userId: req.user?._id,
+      stockAfter,
+      note
+    });
+
+    await recordAudit(req, {
+      action: 'stock_adjustment',
+      entityType: 'product',
+      entityId: product._id,
+      before: { unit, stock: stockAfter - delta },
+      after: { unit, stock: stockAfter, reason, note }
+    });
+
+    res.status(201).json({
+      success: true,
+      data: movement
+    });
+  } catch (error) {
+    logger.error('Create stock adjustment error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to adjust stock'
+    });
+  }
+};
+
+export const getStockMovements = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { unit, reason, from, to, limit: limitNum, page: pageNum } = stockMovementsQuerySchema.parse(req.query);
+
+    const query: any = { productId: id };
+
+    if (unit) {
+      query.unit = unit;
+    }
+
+    if (reason) {
+      query.reason = reason;
+    }
+
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = from;
+      if (to) query.createdAt.$lte = to;
+    }
+
+    const skip = (pageNum - 1) * limitNum;
+
+    const movements = await StockMovement.find(query)
+      .populate('createdBy', 'name email')
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip(skip);
+
+    const total = await StockMovement.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: movements,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    logger.error('Get stock movements error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch stock movements'
+    });
+  }
+};
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { LoginThrottle } from '../models/LoginThrottle';
+import { LoginEvent, LOGIN_EVENT_OUTCOMES } from '../models/LoginEvent';
+import { logger } from '../utils/logger';
+import { recordAudit } from '../services/audit';
+import { AuthRequest } from '../middlewares/auth';
+
+const loginEventsQuerySchema = z.object({
+  email: z.string().trim().max(254, 'Email is too long').optional(),
+  success: z.enum(['true', 'false']).optional(),
+  outcome: z.enum(LOGIN_EVENT_OUTCOMES).optional(),
+  ip: z.string().trim().max(45, 'Invalid IP address').optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  page: z.coerce.number().int().min(1).default(1)
+});
+
+export const getLockouts = async (req: Request, res: Response) => {
+  try {
+    const lockouts = await LoginThrottle.find({ lockedUntil: { $gt: new Date() } })
+      .sort({ lockedUntil: -1 });
+
+    res.json({
+      success: true,
+      data: lockouts
+    });
+  } catch (error) {
+    logger.error('Get lockouts error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch lockouts'
+    });
+  }
+};
+
+export const unlockAccount = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const lockout = await LoginThrottle.findByIdAndDelete(id);
+    if (!lockout) {
+      return res.status(404).json({
+        success: false,
+        error: 'Lockout not found'
+      });
+    }
+
+    logger.info(`Login lockout for ${lockout.email} cleared by ${req.user?.email}`);
+    await recordAudit(req, { action: 'unlock', entityType: 'login_lockout', entityId: lockout._id, before: lockout });
+
+    res.json({
+      success: true,
+      message: 'Account unlocked successfully'
+    });
+  } catch (error) {
+    logger.error('Unlock account error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to unlock account'
+    });
+  }
+};
+
+export const getLoginEvents = async (req: Request, res: Response) => {
+  try {
+    const { email, success, outcome, ip, from, to, limit: limitNum, page: pageNum } = loginEventsQuerySchema.parse(req.query);
+
+    const query: any = {};
+
+    if (email) {
+      query.email = email.toLowerCase();
+    }
+
+    if (success !== undefined) {
+      query.success = success === 'true';
+    }
+
+    if (outcome) {
+      query.outcome = outcome;
+    }
+
+    if (ip) {
+      query.ip = ip;
+    }
+
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = from;
+      if (to) query.createdAt.$lte = to;
+    }
+
+    const skip = (pageNum - 1) * limitNum;
+
+    const events = await LoginEvent.find(query)
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip(skip);
+
+    const total = await LoginEvent.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: events,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    logger.error('Get login events error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch login events'
+    });
+  }
+};
@@ -0,0 +1,82 @@
+import { Response } from 'express';
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middlewares/auth';
+import { detectImageType, storeImage, removeUnusedUploads } from '../services/uploads';
+
+const cleanupSchema = z.object({
+  olderThanHours: z.number().min(1).default(24)
+});
+
+export const createUploads = async (req: AuthRequest, res: Response) => {
+  try {
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    if (files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Attach at least one file in the images field'
+      });
+    }
+
+    // Check every file before storing any, so a bad file leaves nothing behind
+    const invalid = files.find((file) => !detectImageType(file.buffer));
+    if (invalid) {
+      return res.status(415).json({
+        success: false,
+        error: `${invalid.originalname} is not a valid JPEG, PNG, WebP or GIF image`
+      });
+    }
+
+    const results = [];
+    for (const file of files) {
+      const stored = await storeImage(file, req.user?._id);
+      if (!stored) {
+        throw new Error(`Image type of ${file.originalname} could not be detected`);
+      }
+      results.push({
+        id: stored.upload._id,
+        url: stored.upload.url,
+        hash: stored.upload.hash,
+        contentType: stored.upload.contentType,
+        size: stored.upload.size,
+        duplicate: stored.duplicate
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      data: results
+    });
+  } catch (error) {
+    logger.error('Create uploads error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to store uploads'
+    });
+  }
+};
+
+export const cleanupUploads = async (req: AuthRequest, res: Response) => {
+  try {
+    const { olderThanHours } = cleanupSchema.parse(req.body ?? {});
+
+    const result = await removeUnusedUploads(new Date(Date.now() - olderThanHours * 60 * 60 * 1000));
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    logger.error('Cleanup uploads error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to clean up uploads'
+    });
+  }
+};
@@ -0,0 +1,186 @@
+import { Request, Response } from 'express';
+import { z } from 'zod';
+import { User } from '../models/User';
+import { Order } from '../models/Order';
+import { logger } from '../utils/logger';
+import { escapeRegex } from '../utils/regex';
+import { AuthRequest } from '../middlewares/auth';
+import { revokeUserSessions } from '../services/tokens';
+import { USER_ROLES } from '../utils/permissions';
+
+// Validation schemas
+const setBlockedSchema = z.object({
+  blocked: z.boolean(),
+  reason: z.string().trim().max(500, 'Reason is too long').optional()
+});
+
+const userSearchSchema = z.object({
+  q: z.string().trim().max(200, 'Search is too long').optional(),
+  role: z.enum(['all', ...USER_ROLES]).default('user'),
+  isBlocked: z.enum(['true', 'false']).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  page: z.coerce.number().int().min(1).default(1)
+});
+
+const USER_FIELDS = '-passwordHash -googleId';
+
+export const getUsers = async (req: Request, res: Response) => {
+  try {
+    const { q, role, isBlocked, limit: limitNum, page: pageNum } = userSearchSchema.parse(req.query);
+
+    const query: any = {};
+
+    if (role !== 'all') {
+      query.role = role;
+    }
+
+    if (q) {
+      const searchRegex = new RegExp(escapeRegex(q), 'i');
+      query.$or = [
+        { name: searchRegex },
+        { email: searchRegex },
+        { phone: searchRegex }
+      ];
+    }
+
+    if (isBlocked !== undefined) {
+      query.isBlocked = isBlocked === 'true';
+    }
+
+    const skip = (pageNum - 1) * limitNum;
+
+    const users = await User.find(query)
+      .select(USER_FIELDS + ' -addresses')
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip(skip);
+
+    const total = await User.countDocuments(query);
+
+    res.json({
+      success: true,
+      data: users,
+      meta: {
+        total,
+        page: pageNum,
+        limit: limitNum,
+        pages: Math.ceil(total / limitNum)
+      }
+    });
+  } catch (error) {
+    logger.error('Get users error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch users'
+    });
+  }
+};
+
+export const getUserById = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const user = await User.findById(id).select(USER_FIELDS);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    // Lifetime spend only counts orders that were actually delivered
+    const [orderStats] = await Order.aggregate([
+      { $match: { userId: user._id } },
+      {
+        $group: {
+          _id: null,
+          orderCount: { $sum: 1 },
+          deliveredCount: { $sum: { $cond: [{ $eq: ['$status', 'delivered'] }, 1, 0] } },
+          lifetimeSpend: { $sum: { $cond: [{ $eq: ['$status', 'delivered'] }, '$total', 0] } },
+          lastOrderAt: { $max: '$createdAt' }
+        }
+      }
+    ]);
+
+    const recentOrders = await Order.find({ userId: user._id })
+      .select('status total payment.status timeSlot createdAt')
+      .sort({ createdAt: -1 })
+      .limit(5);
+
+    res.json({
+      success: true,
+      data: {
+        user,
+        stats: {
+          orderCount: orderStats?.orderCount ?? 0,
+          deliveredCount: orderStats?.deliveredCount ?? 0,
+          lifetimeSpend: orderStats?.lifetimeSpend ?? 0,
+          lastOrderAt: orderStats?.lastOrderAt ?? null
+        },
+        recentOrders
+      }
+    });
+  } catch (error) {
+    logger.error('Get user by ID error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch user'
+    });
+  }
+};
+
+export const setUserBlocked = async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { blocked, reason } = setBlockedSchema.parse(req.body);
+
+    const user = await User.findById(id).select(USER_FIELDS);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    if (user._id.equals(req.user!._id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'You cannot block your own account'
+      });
+    }
+
+    user.isBlocked = blocked;
+    user.blockedAt = blocked ? new Date() : undefined;
+    user.blockedReason = blocked ? reason : undefined;
+    await user.save();
+
+    // Blocking signs the user out everywhere, so refresh tokens stop working too
+    if (blocked) {
+      await revokeUserSessions(user._id, 'admin');
+    }
+
+    res.json({
+      success: true,
+      data: user,
+      message: blocked ? 'User blocked successfully' : 'User unblocked successfully'
+    });
+  } catch (error) {
+    logger.error('Set user blocked error:', error);
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        success: false,
+        error: error.errors[0].message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update user'
+    });
+  }
+};
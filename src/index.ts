@@ -1,20 +1,28 @@
+// Load environment variables before any module reads them at import time
+import 'dotenv/config';
 import express from 'express';
 import mongoose from 'mongoose';
 import cors from 'cors';
 import helmet from 'helmet';
 import rateLimit from 'express-rate-limit';
 import morgan from 'morgan';
-import dotenv from 'dotenv';
 
 import authRoutes from './routes/auth';
 import categoryRoutes from './routes/categories';
 import productRoutes from './routes/products';
 import orderRoutes from './routes/orders';
+import userRoutes from './routes/users';
+import auditLogRoutes from './routes/auditLogs';
+import analyticsRoutes from './routes/analytics';
+import deliverySlotRoutes from './routes/deliverySlots';
+import deliveryZoneRoutes from './routes/deliveryZones';
+import paymentRoutes from './routes/payments';
+import couponRoutes from './routes/coupons';
+import uploadRoutes from './routes/uploads';
 import { errorHandler } from './middlewares/errorHandler';
 import { logger } from './utils/logger';
-
-// Load environment variables
-dotenv.config();
+import { startPriceScheduler } from './services/pricing';
+import { UPLOAD_DIR, UPLOADS_PUBLIC_PATH } from './services/storage';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -24,7 +32,7 @@ app.use(helmet());
 
 // CORS configuration
 const corsOptions = {
-  origin: function (origin: string | undefined, callback: Function) {
+  origin: function (origin: string | undefined, callback: (error: Error | null, allow?: boolean) => void) {
     // Allow requests with no origin (like mobile apps or curl requests)
     if (!origin) return callback(null, true);
     
@@ -65,17 +73,41 @@ const limiter = rateLimit({
 app.use('/auth', limiter);
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Keep the raw body so payment webhook signatures can be verified
+app.use(express.json({
+  limit: '10mb',
+  verify: (req: any, res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true }));
 
 // Logging
 app.use(morgan('combined', { stream: { write: (message) => logger.info(message.trim()) } }));
 
+// Uploaded images are content-addressed, so they never change once written
+app.use(UPLOADS_PUBLIC_PATH, express.static(UPLOAD_DIR, {
+  immutable: true,
+  maxAge: '365d',
+  setHeaders: (res) => {
+    // Let the admin panel on another origin display them despite helmet's default
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+  }
+}));
+
 // Routes
 app.use('/auth', authRoutes);
 app.use('/categories', categoryRoutes);
 app.use('/products', productRoutes);
 app.use('/orders', orderRoutes);
+app.use('/users', userRoutes);
+app.use('/audit-logs', auditLogRoutes);
+app.use('/analytics', analyticsRoutes);
+app.use('/delivery-slots', deliverySlotRoutes);
+app.use('/delivery-zones', deliveryZoneRoutes);
+app.use('/payments', paymentRoutes);
+app.use('/coupons', couponRoutes);
+app.use('/uploads', uploadRoutes);
 
 // Health check
 app.get('/health', (req, res) => {
@@ -94,6 +126,7 @@ app.use('*', (req, res) => {
 mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/veggiefresh')
   .then(() => {
     logger.info('Connected to MongoDB');
+    startPriceScheduler(parseInt(process.env.PRICE_SCHEDULE_INTERVAL_MS || '60000'));
     app.listen(PORT, () => {
       logger.info(`Admin Backend Server running on port ${PORT}`);
     });
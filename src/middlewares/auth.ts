@@ -1,9 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User, IUser } from '../models/User';
+import { AccessTokenPayload, isSessionActive } from '../services/tokens';
+import { verifyChallengeToken } from '../services/twoFactor';
+import { Permission, hasPermission, isStaffRole } from '../utils/permissions';
 
 export interface AuthRequest extends Request {
   user?: IUser;
+  // Set when the request is authenticated by a 2FA enrolment challenge instead of an access token
+  twoFactorEnrollment?: boolean;
 }
 
 export const authenticateToken = async (req: any, res: Response, next: NextFunction) => {
@@ -15,13 +20,27 @@ export const authenticateToken = async (req: any, res: Response, next: NextFunct
       return res.status(401).json({ success: false, error: 'Access token required' });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
+    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as Partial<AccessTokenPayload> & { type?: string };
+
+    // Only session-bound access tokens are accepted; refresh tokens and legacy untyped tokens are not
+    if (decoded.type !== 'access' || !decoded.sid) {
+      return res.status(403).json({ success: false, error: 'Invalid token' });
+    }
+
+    if (!(await isSessionActive(decoded.sid))) {
+      return res.status(401).json({ success: false, error: 'Session has been revoked' });
+    }
+
     const user = await User.findById(decoded.userId).select('-passwordHash');
     
     if (!user) {
       return res.status(401).json({ success: false, error: 'User not found' });
     }
 
+    if (user.isBlocked) {
+      return res.status(403).json({ success: false, error: 'Account is blocked' });
+    }
+
     req.user = user;
     next();
   } catch (error) {
@@ -29,6 +48,32 @@ export const authenticateToken = async (req: any, res: Response, next: NextFunct
   }
 };
 
+// Accept an access token, or the enrolment challenge issued when 2FA setup is required at login
+export const authenticateTwoFactorSetup = async (req: any, res: Response, next: NextFunction) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+  const decoded = token ? jwt.decode(token) as any : null;
+
+  if (decoded?.type !== 'challenge') {
+    return authenticateToken(req, res, next);
+  }
+
+  try {
+    const { userId } = verifyChallengeToken(token, 'enroll');
+    const user = await User.findById(userId).select('-passwordHash');
+
+    if (!user || user.isBlocked) {
+      return res.status(401).json({ success: false, error: 'User not found' });
+    }
+
+    req.user = user;
+    req.twoFactorEnrollment = true;
+    next();
+  } catch (error) {
+    return res.status(403).json({ success: false, error: 'Invalid token' });
+  }
+};
+
 export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction) => {
   if (req.user?.role !== 'admin') {
     return res.status(403).json({ success: false, error: 'Admin access required' });
@@ -36,3 +81,20 @@ export const requireAdmin = (req: AuthRequest, res: Response, next: NextFunction
   next();
 };
 
+
+export const requireStaff = (req: AuthRequest, res: Response, next: NextFunction) => {
+  if (!req.user || !isStaffRole(req.user.role)) {
+    return res.status(403).json({ success: false, error: 'Staff access required' });
+  }
+  next();
+};
+
+// Require every listed permission for the authenticated user's role
+export const requirePermission = (...permissions: Permission[]) =>
+  (req: AuthRequest, res: Response, next: NextFunction) => {
+    const role = req.user?.role;
+    if (!role || !permissions.every((permission) => hasPermission(role, permission))) {
+      return res.status(403).json({ success: false, error: 'Insufficient permissions' });
+    }
+    next();
+  };
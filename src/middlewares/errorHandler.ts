@@ -1,11 +1,12 @@
 import { Request, Response, NextFunction } from 'express';
+import { MulterError } from 'multer';
 import { logger } from '../utils/logger';
 
 export const errorHandler = (
   error: any,
   req: Request,
   res: Response,
-  next: NextFunction
+  _next: NextFunction
 ) => {
   logger.error('Error:', error);
 
@@ -28,6 +29,14 @@ export const errorHandler = (
     });
   }
 
+  // Upload errors
+  if (error instanceof MulterError) {
+    return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+      success: false,
+      error: error.code === 'LIMIT_FILE_SIZE' ? 'File is too large' : error.message
+    });
+  }
+
   // JWT errors
   if (error.name === 'JsonWebTokenError') {
     return res.status(401).json({
@@ -0,0 +1,18 @@
+import multer from 'multer';
+import { IMAGE_EXTENSIONS } from '../services/uploads';
+
+export const MAX_UPLOAD_BYTES = parseInt(process.env.UPLOAD_MAX_BYTES || String(5 * 1024 * 1024));
+
+export const MAX_UPLOAD_FILES = 10;
+
+// Files are kept in memory so they can be hashed before anything is written
+export const uploadImages = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_UPLOAD_FILES },
+  fileFilter: (req, file, callback) => {
+    if (!IMAGE_EXTENSIONS[file.mimetype]) {
+      return callback(Object.assign(new Error(`Unsupported file type: ${file.mimetype}`), { status: 415 }));
+    }
+    callback(null, true);
+  }
+}).array('images', MAX_UPLOAD_FILES);
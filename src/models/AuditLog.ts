@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const AUDIT_ENTITY_TYPES = ['category', 'product', 'order', 'login_lockout'] as const;
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+export const AUDIT_ACTIONS = ['create', 'update', 'delete', 'status_change', 'stock_adjustment', 'restore', 'purge', 'unlock'] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export interface IAuditLog extends Document {
+  _id: mongoose.Types.ObjectId;
+  actorId?: mongoose.Types.ObjectId;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: mongoose.Types.ObjectId;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>({
+  actorId: { type: Schema.Types.ObjectId, ref: 'User' },
+  action: { type: String, enum: AUDIT_ACTIONS, required: true },
+  entityType: { type: String, enum: AUDIT_ENTITY_TYPES, required: true },
+  entityId: { type: Schema.Types.ObjectId, required: true },
+  before: { type: Schema.Types.Mixed },
+  after: { type: Schema.Types.Mixed },
+  ip: { type: String },
+  userAgent: { type: String }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for faster queries
+auditLogSchema.index({ entityType: 1, entityId: 1, createdAt: -1 });
+auditLogSchema.index({ actorId: 1, createdAt: -1 });
+auditLogSchema.index({ createdAt: -1 });
+
+export const AuditLog = mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
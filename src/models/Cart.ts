@@ -15,6 +15,7 @@ export interface ICart extends Document {
   userId: mongoose.Types.ObjectId;
   items: ICartItem[];
   subtotal: number;
+  couponCode?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -32,7 +33,8 @@ const cartItemSchema = new Schema<ICartItem>({
 const cartSchema = new Schema<ICart>({
   userId: { type: Schema.Types.ObjectId, ref: 'User', required: true, unique: true },
   items: [cartItemSchema],
-  subtotal: { type: Number, default: 0 }
+  subtotal: { type: Number, default: 0 },
+  couponCode: { type: String, uppercase: true, trim: true }
 }, {
   timestamps: true
 });
@@ -4,8 +4,11 @@ export interface ICategory extends Document {
   _id: mongoose.Types.ObjectId;
   name: string;
   iconUrl?: string;
+  parentId?: mongoose.Types.ObjectId | null;
   sort: number;
   isActive: boolean;
+  deletedAt?: Date | null;
+  deletedBy?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -13,14 +16,19 @@ export interface ICategory extends Document {
 const categorySchema = new Schema<ICategory>({
   name: { type: String, required: true, trim: true },
   iconUrl: { type: String },
+  parentId: { type: Schema.Types.ObjectId, ref: 'Category', default: null },
   sort: { type: Number, default: 0 },
-  isActive: { type: Boolean, default: true }
+  isActive: { type: Boolean, default: true },
+  deletedAt: { type: Date, default: null },
+  deletedBy: { type: Schema.Types.ObjectId, ref: 'User' }
 }, {
   timestamps: true
 });
 
 // Index for faster queries
 categorySchema.index({ isActive: 1, sort: 1 });
+categorySchema.index({ parentId: 1, sort: 1 });
+categorySchema.index({ deletedAt: 1 });
 
 export const Category = mongoose.model<ICategory>('Category', categorySchema);
 
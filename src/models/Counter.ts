@@ -0,0 +1,24 @@
+import mongoose, { ClientSession, Document, Schema } from 'mongoose';
+
+// Named monotonic sequences, e.g. invoice numbers per financial year
+export interface ICounter extends Omit<Document, '_id'> {
+  _id: string;
+  seq: number;
+}
+
+const counterSchema = new Schema<ICounter>({
+  _id: { type: String, required: true },
+  seq: { type: Number, default: 0 }
+});
+
+export const Counter = mongoose.model<ICounter>('Counter', counterSchema);
+
+// Atomically increment and return the next value of a sequence
+export const nextSequence = async (name: string, session?: ClientSession) => {
+  const counter = await Counter.findOneAndUpdate(
+    { _id: name },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, session }
+  );
+  return counter.seq;
+};
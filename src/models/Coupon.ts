@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const COUPON_TYPES = ['percentage', 'flat', 'free_delivery'] as const;
+
+export type CouponType = typeof COUPON_TYPES[number];
+
+export interface ICoupon extends Document {
+  _id: mongoose.Types.ObjectId;
+  code: string;
+  description?: string;
+  type: CouponType;
+  value: number;
+  maxDiscount?: number;
+  minSubtotal: number;
+  usageLimit?: number;
+  perUserLimit?: number;
+  validFrom?: Date;
+  validUntil?: Date;
+  categoryIds: mongoose.Types.ObjectId[];
+  productIds: mongoose.Types.ObjectId[];
+  isActive: boolean;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const couponSchema = new Schema<ICoupon>({
+  code: { type: String, required: true, unique: true, uppercase: true, trim: true },
+  description: { type: String, trim: true },
+  type: { type: String, enum: COUPON_TYPES, required: true },
+  // Percent for `percentage`, currency amount for `flat`, unused for `free_delivery`
+  value: { type: Number, default: 0, min: 0 },
+  maxDiscount: { type: Number, min: 0 },
+  minSubtotal: { type: Number, default: 0, min: 0 },
+  usageLimit: { type: Number, min: 1 },
+  perUserLimit: { type: Number, min: 1 },
+  validFrom: { type: Date },
+  validUntil: { type: Date },
+  // When set, only matching items count towards the discount
+  categoryIds: [{ type: Schema.Types.ObjectId, ref: 'Category' }],
+  productIds: [{ type: Schema.Types.ObjectId, ref: 'Product' }],
+  isActive: { type: Boolean, default: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, {
+  timestamps: true
+});
+
+// Index for faster queries
+couponSchema.index({ isActive: 1, validUntil: 1 });
+
+export const Coupon = mongoose.model<ICoupon>('Coupon', couponSchema);
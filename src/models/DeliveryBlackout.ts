@@ -0,0 +1,19 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A day with no deliveries at all, e.g. a public holiday
+export interface IDeliveryBlackout extends Document {
+  _id: mongoose.Types.ObjectId;
+  date: string;
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const deliveryBlackoutSchema = new Schema<IDeliveryBlackout>({
+  date: { type: String, required: true, unique: true, match: /^\d{4}-\d{2}-\d{2}$/ },
+  reason: { type: String, trim: true }
+}, {
+  timestamps: true
+});
+
+export const DeliveryBlackout = mongoose.model<IDeliveryBlackout>('DeliveryBlackout', deliveryBlackoutSchema);
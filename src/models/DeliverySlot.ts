@@ -0,0 +1,43 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A delivery window. Weekly slots repeat on `dayOfWeek` (0 = Sunday);
+ * one-off slots apply only on `date` (YYYY-MM-DD).
+ */
+export interface IDeliverySlot extends Document {
+  _id: mongoose.Types.ObjectId;
+  name?: string;
+  recurrence: 'weekly' | 'once';
+  dayOfWeek?: number;
+  date?: string;
+  startTime: string;
+  endTime: string;
+  capacity: number;
+  isExpress: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const deliverySlotSchema = new Schema<IDeliverySlot>({
+  name: { type: String, trim: true },
+  recurrence: { type: String, enum: ['weekly', 'once'], required: true, default: 'weekly' },
+  dayOfWeek: { type: Number, min: 0, max: 6 },
+  date: { type: String, match: DATE_PATTERN },
+  startTime: { type: String, required: true, match: TIME_PATTERN },
+  endTime: { type: String, required: true, match: TIME_PATTERN },
+  capacity: { type: Number, required: true, min: 0 },
+  isExpress: { type: Boolean, default: false },
+  isActive: { type: Boolean, default: true }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+deliverySlotSchema.index({ recurrence: 1, dayOfWeek: 1, isActive: 1 });
+deliverySlotSchema.index({ date: 1 });
+
+export const DeliverySlot = mongoose.model<IDeliverySlot>('DeliverySlot', deliverySlotSchema);
@@ -0,0 +1,38 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A set of serviceable pincodes sharing one delivery fee rule. The fee is
+ * `baseFee`, waived when the subtotal reaches `freeDeliveryAbove`, plus
+ * `expressSurcharge` for express slots (charged even when delivery is free).
+ */
+export interface IDeliveryZone extends Document {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  pincodes: string[];
+  baseFee: number;
+  freeDeliveryAbove?: number;
+  expressSurcharge: number;
+  minOrderValue: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const PINCODE_PATTERN = /^\d{6}$/;
+
+const deliveryZoneSchema = new Schema<IDeliveryZone>({
+  name: { type: String, required: true, trim: true },
+  pincodes: [{ type: String, match: PINCODE_PATTERN }],
+  baseFee: { type: Number, required: true, min: 0, default: 0 },
+  freeDeliveryAbove: { type: Number, min: 0 },
+  expressSurcharge: { type: Number, min: 0, default: 0 },
+  minOrderValue: { type: Number, min: 0, default: 0 },
+  isActive: { type: Boolean, default: true }
+}, {
+  timestamps: true
+});
+
+// Index for faster queries
+deliveryZoneSchema.index({ pincodes: 1, isActive: 1 });
+
+export const DeliveryZone = mongoose.model<IDeliveryZone>('DeliveryZone', deliveryZoneSchema);
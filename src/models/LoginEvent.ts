@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const LOGIN_EVENT_OUTCOMES = [
+  'success',
+  'invalid_credentials',
+  'locked',
+  'not_staff',
+  'blocked',
+  'two_factor_required',
+  'invalid_two_factor'
+] as const;
+
+export type LoginEventOutcome = typeof LOGIN_EVENT_OUTCOMES[number];
+
+export interface ILoginEvent extends Document {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  userId?: mongoose.Types.ObjectId;
+  success: boolean;
+  outcome: LoginEventOutcome;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+}
+
+const loginEventSchema = new Schema<ILoginEvent>({
+  email: { type: String, required: true, lowercase: true, trim: true },
+  userId: { type: Schema.Types.ObjectId, ref: 'User' },
+  success: { type: Boolean, required: true },
+  outcome: { type: String, enum: LOGIN_EVENT_OUTCOMES, required: true },
+  ip: { type: String },
+  userAgent: { type: String }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for faster queries
+loginEventSchema.index({ email: 1, createdAt: -1 });
+// Keep login history for 90 days
+loginEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: 90 * 24 * 60 * 60 });
+
+export const LoginEvent = mongoose.model<ILoginEvent>('LoginEvent', loginEventSchema);
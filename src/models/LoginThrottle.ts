@@ -0,0 +1,26 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Failed login tracking per email, whether or not an account exists for it
+export interface ILoginThrottle extends Document {
+  _id: mongoose.Types.ObjectId;
+  email: string;
+  failedCount: number;
+  lastFailedAt?: Date;
+  lockedUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const loginThrottleSchema = new Schema<ILoginThrottle>({
+  email: { type: String, required: true, unique: true, lowercase: true, trim: true },
+  failedCount: { type: Number, default: 0 },
+  lastFailedAt: { type: Date },
+  lockedUntil: { type: Date }
+}, {
+  timestamps: true
+});
+
+// Index for faster queries
+loginThrottleSchema.index({ lockedUntil: 1 });
+
+export const LoginThrottle = mongoose.model<ILoginThrottle>('LoginThrottle', loginThrottleSchema);
@@ -8,12 +8,75 @@ export interface ITimeSlot {
   endTime: string;
 }
 
+export const PAYMENT_STATUSES = ['created', 'paid', 'failed', 'pending', 'partially_refunded', 'refunded'] as const;
+
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
 export interface IPayment {
   provider: 'razorpay' | 'stripe' | 'cod';
-  status: 'created' | 'paid' | 'failed' | 'pending';
+  status: PaymentStatus;
   orderId?: string;
   paymentId?: string;
   signature?: string;
+  amountPaid?: number;
+  paidAt?: Date;
+  collectedBy?: mongoose.Types.ObjectId;
+}
+
+export const REFUND_STATUSES = ['pending', 'processed', 'failed'] as const;
+
+export type RefundStatus = typeof REFUND_STATUSES[number];
+
+export interface IRefund {
+  _id: mongoose.Types.ObjectId;
+  amount: number;
+  reason?: string;
+  status: RefundStatus;
+  gatewayRefundId?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  processedAt?: Date;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const ORDER_STATUSES = ['placed', 'confirmed', 'preparing', 'out_for_delivery', 'delivered', 'cancelled'] as const;
+
+export type OrderStatus = typeof ORDER_STATUSES[number];
+
+// Allowed next statuses for each order status
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  placed: ['confirmed', 'cancelled'],
+  confirmed: ['preparing', 'cancelled'],
+  preparing: ['out_for_delivery', 'cancelled'],
+  out_for_delivery: ['delivered', 'cancelled'],
+  delivered: [],
+  cancelled: []
+};
+
+export const canTransitionOrderStatus = (from: OrderStatus, to: OrderStatus) =>
+  ORDER_STATUS_TRANSITIONS[from].includes(to);
+
+export interface IStatusHistoryEntry {
+  from?: OrderStatus;
+  to: OrderStatus;
+  changedBy?: mongoose.Types.ObjectId;
+  note?: string;
+  changedAt: Date;
+}
+
+export interface IInvoice {
+  number: string;
+  financialYear: string;
+  sequence: number;
+  issuedAt: Date;
+}
+
+export interface IAppliedCoupon {
+  couponId: mongoose.Types.ObjectId;
+  code: string;
+  discount: number;
+  freeDelivery: boolean;
 }
 
 export interface IOrder extends Document {
@@ -24,9 +87,15 @@ export interface IOrder extends Document {
   timeSlot: ITimeSlot;
   subtotal: number;
   deliveryFee: number;
+  discount: number;
+  coupon?: IAppliedCoupon;
   total: number;
   payment: IPayment;
-  status: 'placed' | 'confirmed' | 'preparing' | 'out_for_delivery' | 'delivered' | 'cancelled';
+  status: OrderStatus;
+  statusHistory: IStatusHistoryEntry[];
+  stockReserved: boolean;
+  invoice?: IInvoice;
+  refunds: mongoose.Types.DocumentArray<IRefund>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -39,12 +108,49 @@ const timeSlotSchema = new Schema<ITimeSlot>({
 
 const paymentSchema = new Schema<IPayment>({
   provider: { type: String, enum: ['razorpay', 'stripe', 'cod'], required: true },
-  status: { type: String, enum: ['created', 'paid', 'failed', 'pending'], required: true },
+  status: { type: String, enum: PAYMENT_STATUSES, required: true },
   orderId: { type: String },
   paymentId: { type: String },
-  signature: { type: String }
+  signature: { type: String },
+  amountPaid: { type: Number },
+  paidAt: { type: Date },
+  collectedBy: { type: Schema.Types.ObjectId, ref: 'User' }
 });
 
+const refundSchema = new Schema<IRefund>({
+  amount: { type: Number, required: true, min: 0 },
+  reason: { type: String, trim: true },
+  status: { type: String, enum: REFUND_STATUSES, default: 'pending' },
+  gatewayRefundId: { type: String },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  processedAt: { type: Date },
+  failureReason: { type: String }
+}, {
+  timestamps: true
+});
+
+const statusHistorySchema = new Schema<IStatusHistoryEntry>({
+  from: { type: String, enum: ORDER_STATUSES },
+  to: { type: String, enum: ORDER_STATUSES, required: true },
+  changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  note: { type: String, trim: true },
+  changedAt: { type: Date, default: Date.now }
+});
+
+const invoiceSchema = new Schema<IInvoice>({
+  number: { type: String, required: true },
+  financialYear: { type: String, required: true },
+  sequence: { type: Number, required: true },
+  issuedAt: { type: Date, required: true }
+}, { _id: false });
+
+const appliedCouponSchema = new Schema<IAppliedCoupon>({
+  couponId: { type: Schema.Types.ObjectId, ref: 'Coupon', required: true },
+  code: { type: String, required: true },
+  discount: { type: Number, required: true, min: 0 },
+  freeDelivery: { type: Boolean, default: false }
+}, { _id: false });
+
 const orderSchema = new Schema<IOrder>({
   userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
   items: [{ type: Schema.Types.Mixed }], // Using ICartItem structure
@@ -52,13 +158,19 @@ const orderSchema = new Schema<IOrder>({
   timeSlot: { type: timeSlotSchema, required: true },
   subtotal: { type: Number, required: true },
   deliveryFee: { type: Number, default: 0 },
+  discount: { type: Number, default: 0 },
+  coupon: { type: appliedCouponSchema },
   total: { type: Number, required: true },
   payment: { type: paymentSchema, required: true },
   status: { 
     type: String, 
-    enum: ['placed', 'confirmed', 'preparing', 'out_for_delivery', 'delivered', 'cancelled'],
+    enum: ORDER_STATUSES,
     default: 'placed'
-  }
+  },
+  statusHistory: [statusHistorySchema],
+  stockReserved: { type: Boolean, default: false },
+  invoice: { type: invoiceSchema },
+  refunds: [refundSchema]
 }, {
   timestamps: true
 });
@@ -66,6 +178,10 @@ const orderSchema = new Schema<IOrder>({
 // Indexes for faster queries
 orderSchema.index({ userId: 1, createdAt: -1 });
 orderSchema.index({ status: 1 });
+orderSchema.index({ 'invoice.number': 1 }, { unique: true, sparse: true });
+orderSchema.index({ 'payment.orderId': 1 });
+orderSchema.index({ 'coupon.couponId': 1, userId: 1 });
+orderSchema.index({ 'payment.paymentId': 1 });
 
 export const Order = mongoose.model<IOrder>('Order', orderSchema);
 
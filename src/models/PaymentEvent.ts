@@ -0,0 +1,30 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A verified payment gateway webhook, kept so each event is applied only once
+export interface IPaymentEvent extends Document {
+  _id: mongoose.Types.ObjectId;
+  provider: 'razorpay' | 'stripe';
+  eventId: string;
+  type: string;
+  orderId?: mongoose.Types.ObjectId;
+  outcome: 'applied' | 'ignored' | 'unmatched';
+  payload: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const paymentEventSchema = new Schema<IPaymentEvent>({
+  provider: { type: String, enum: ['razorpay', 'stripe'], required: true },
+  eventId: { type: String, required: true },
+  type: { type: String, required: true },
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order' },
+  outcome: { type: String, enum: ['applied', 'ignored', 'unmatched'], required: true },
+  payload: { type: Schema.Types.Mixed, required: true }
+}, {
+  timestamps: { createdAt: true, updatedAt: false }
+});
+
+// Indexes for faster queries
+paymentEventSchema.index({ provider: 1, eventId: 1 }, { unique: true });
+paymentEventSchema.index({ orderId: 1, createdAt: -1 });
+
+export const PaymentEvent = mongoose.model<IPaymentEvent>('PaymentEvent', paymentEventSchema);
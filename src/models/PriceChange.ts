@@ -0,0 +1,46 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IUnitPrice } from './Product';
+
+export const PRICE_CHANGE_SOURCES = ['create', 'manual', 'import', 'schedule', 'revert'] as const;
+
+export type PriceChangeSource = typeof PRICE_CHANGE_SOURCES[number];
+
+/**
+ * One change to a product unit's price or compareAt. `previous*` is absent
+ * for the first entry of a unit.
+ */
+export interface IPriceChange extends Document {
+  _id: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  unit: IUnitPrice['unit'];
+  price: number;
+  compareAt?: number;
+  previousPrice?: number;
+  previousCompareAt?: number;
+  effectiveAt: Date;
+  source: PriceChangeSource;
+  scheduleId?: mongoose.Types.ObjectId;
+  changedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const priceChangeSchema = new Schema<IPriceChange>({
+  productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+  unit: { type: String, enum: ['kg', 'g', 'pcs', 'bundle'], required: true },
+  price: { type: Number, required: true },
+  compareAt: { type: Number },
+  previousPrice: { type: Number },
+  previousCompareAt: { type: Number },
+  effectiveAt: { type: Date, required: true, default: Date.now },
+  source: { type: String, enum: PRICE_CHANGE_SOURCES, required: true },
+  scheduleId: { type: Schema.Types.ObjectId, ref: 'PriceSchedule' },
+  changedBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, {
+  timestamps: true
+});
+
+// Index for faster queries
+priceChangeSchema.index({ productId: 1, unit: 1, effectiveAt: -1 });
+
+export const PriceChange = mongoose.model<IPriceChange>('PriceChange', priceChangeSchema);
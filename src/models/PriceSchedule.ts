@@ -0,0 +1,62 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IUnitPrice } from './Product';
+
+export const PRICE_SCHEDULE_STATUSES = ['pending', 'active', 'completed', 'cancelled'] as const;
+
+export type PriceScheduleStatus = typeof PRICE_SCHEDULE_STATUSES[number];
+
+/**
+ * A future price for one product unit. At `startsAt` the price (and
+ * compareAt, when set) is applied and the values it replaced are kept in
+ * `revertTo`; at `endsAt` they are put back. `clearCompareAt` removes the
+ * compareAt for the duration instead of setting one.
+ */
+export interface IPriceSchedule extends Document {
+  _id: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  unit: IUnitPrice['unit'];
+  price?: number;
+  compareAt?: number;
+  clearCompareAt: boolean;
+  startsAt: Date;
+  endsAt?: Date;
+  status: PriceScheduleStatus;
+  revertTo?: {
+    price: number;
+    compareAt?: number;
+  };
+  appliedAt?: Date;
+  endedAt?: Date;
+  note?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const priceScheduleSchema = new Schema<IPriceSchedule>({
+  productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+  unit: { type: String, enum: ['kg', 'g', 'pcs', 'bundle'], required: true },
+  price: { type: Number, min: 0 },
+  compareAt: { type: Number, min: 0 },
+  clearCompareAt: { type: Boolean, default: false },
+  startsAt: { type: Date, required: true },
+  endsAt: { type: Date },
+  status: { type: String, enum: PRICE_SCHEDULE_STATUSES, default: 'pending' },
+  revertTo: {
+    price: { type: Number },
+    compareAt: { type: Number }
+  },
+  appliedAt: { type: Date },
+  endedAt: { type: Date },
+  note: { type: String, trim: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+priceScheduleSchema.index({ status: 1, startsAt: 1 });
+priceScheduleSchema.index({ status: 1, endsAt: 1 });
+priceScheduleSchema.index({ productId: 1, unit: 1, startsAt: 1 });
+
+export const PriceSchedule = mongoose.model<IPriceSchedule>('PriceSchedule', priceScheduleSchema);
@@ -7,6 +7,7 @@ export interface IUnitPrice {
   price: number;
   compareAt?: number;
   stock: number;
+  reorderThreshold: number;
 }
 
 export interface IProduct extends Document {
@@ -19,6 +20,8 @@ export interface IProduct extends Document {
   unitPrices: IUnitPrice[];
   rating?: number;
   isActive: boolean;
+  deletedAt?: Date | null;
+  deletedBy?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -29,7 +32,8 @@ const unitPriceSchema = new Schema<IUnitPrice>({
   baseQty: { type: Number, required: true },
   price: { type: Number, required: true },
   compareAt: { type: Number },
-  stock: { type: Number, required: true, min: 0 }
+  stock: { type: Number, required: true, min: 0 },
+  reorderThreshold: { type: Number, default: 0, min: 0 }
 });
 
 const productSchema = new Schema<IProduct>({
@@ -40,19 +44,24 @@ const productSchema = new Schema<IProduct>({
   description: { type: String },
   unitPrices: [unitPriceSchema],
   rating: { type: Number, min: 0, max: 5 },
-  isActive: { type: Boolean, default: true }
+  isActive: { type: Boolean, default: true },
+  deletedAt: { type: Date, default: null },
+  deletedBy: { type: Schema.Types.ObjectId, ref: 'User' }
 }, {
-  timestamps: true
+  timestamps: true,
+  // Stock updates bump the version, so saving a stale copy of unitPrices fails
+  optimisticConcurrency: true
 });
 
 // Indexes for faster queries
 productSchema.index({ categoryId: 1, isActive: 1 });
 productSchema.index({ slug: 1 });
+productSchema.index({ deletedAt: 1 });
 productSchema.index({ name: 'text', description: 'text' });
 
-// Generate slug from name
+// Generate slug from name unless one was set explicitly
 productSchema.pre('save', function(next) {
-  if (this.isModified('name') || !this.slug) {
+  if (!this.slug || (this.isModified('name') && !this.isModified('slug'))) {
     this.slug = this.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
   }
   next();
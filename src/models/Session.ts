@@ -0,0 +1,36 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// A refresh token family: every rotated refresh token of one login shares a session
+export interface ISession extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  currentTokenHash: string;
+  expiresAt: Date;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  revokedReason?: 'logout' | 'reuse_detected' | 'admin';
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>({
+  userId: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  currentTokenHash: { type: String, required: true },
+  expiresAt: { type: Date, required: true },
+  lastUsedAt: { type: Date },
+  revokedAt: { type: Date },
+  revokedReason: { type: String, enum: ['logout', 'reuse_detected', 'admin'] },
+  ip: { type: String },
+  userAgent: { type: String }
+}, {
+  timestamps: true
+});
+
+// Index for faster queries
+sessionSchema.index({ userId: 1, revokedAt: 1 });
+// Let MongoDB remove sessions once their refresh tokens can no longer be used
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const Session = mongoose.model<ISession>('Session', sessionSchema);
@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { IUnitPrice } from './Product';
+
+export const STOCK_MOVEMENT_REASONS = ['restock', 'sale', 'cancellation', 'spoilage', 'correction'] as const;
+
+export type StockMovementReason = typeof STOCK_MOVEMENT_REASONS[number];
+
+export interface IStockMovement extends Document {
+  _id: mongoose.Types.ObjectId;
+  productId: mongoose.Types.ObjectId;
+  unit: IUnitPrice['unit'];
+  delta: number;
+  stockAfter?: number;
+  reason: StockMovementReason;
+  orderId?: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const stockMovementSchema = new Schema<IStockMovement>({
+  productId: { type: Schema.Types.ObjectId, ref: 'Product', required: true },
+  unit: { type: String, enum: ['kg', 'g', 'pcs', 'bundle'], required: true },
+  delta: { type: Number, required: true },
+  stockAfter: { type: Number },
+  reason: { type: String, enum: STOCK_MOVEMENT_REASONS, required: true },
+  orderId: { type: Schema.Types.ObjectId, ref: 'Order' },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  note: { type: String, trim: true }
+}, {
+  timestamps: true
+});
+
+// Indexes for faster queries
+stockMovementSchema.index({ productId: 1, createdAt: -1 });
+stockMovementSchema.index({ orderId: 1 });
+
+export const StockMovement = mongoose.model<IStockMovement>('StockMovement', stockMovementSchema);
@@ -0,0 +1,40 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+/**
+ * A stored image. Identical files share one record through the content
+ * `hash`; `url` is what products and categories reference. `lastUsedAt`
+ * is refreshed whenever the file is uploaded again, so cleanup never
+ * removes a file an admin has just been handed.
+ */
+export interface IUpload extends Document {
+  _id: mongoose.Types.ObjectId;
+  hash: string;
+  key: string;
+  url: string;
+  contentType: string;
+  size: number;
+  originalName?: string;
+  uploadedBy?: mongoose.Types.ObjectId;
+  lastUsedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const uploadSchema = new Schema<IUpload>({
+  hash: { type: String, required: true, unique: true },
+  key: { type: String, required: true },
+  url: { type: String, required: true },
+  contentType: { type: String, required: true },
+  size: { type: Number, required: true },
+  originalName: { type: String, trim: true },
+  uploadedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  lastUsedAt: { type: Date, default: Date.now }
+}, {
+  timestamps: true
+});
+
+// Index for faster queries
+uploadSchema.index({ url: 1 });
+uploadSchema.index({ lastUsedAt: 1 });
+
+export const Upload = mongoose.model<IUpload>('Upload', uploadSchema);
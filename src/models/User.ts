@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { USER_ROLES, UserRole } from '../utils/permissions';
 
 export interface IAddress {
   _id?: mongoose.Types.ObjectId;
@@ -22,8 +23,17 @@ export interface IUser extends Document {
   passwordHash?: string;
   avatarUrl?: string;
   addresses: IAddress[];
-  role: 'user' | 'admin';
+  role: UserRole;
   isPhoneVerified: boolean;
+  isBlocked: boolean;
+  blockedAt?: Date;
+  blockedReason?: string;
+  twoFactorEnabled: boolean;
+  twoFactorEnrollmentRequired: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -48,8 +58,18 @@ const userSchema = new Schema<IUser>({
   passwordHash: { type: String },
   avatarUrl: { type: String },
   addresses: [addressSchema],
-  role: { type: String, enum: ['user', 'admin'], default: 'user' },
-  isPhoneVerified: { type: Boolean, default: false }
+  role: { type: String, enum: USER_ROLES, default: 'user' },
+  isPhoneVerified: { type: Boolean, default: false },
+  isBlocked: { type: Boolean, default: false },
+  blockedAt: { type: Date },
+  blockedReason: { type: String, trim: true },
+  twoFactorEnabled: { type: Boolean, default: false },
+  twoFactorEnrollmentRequired: { type: Boolean, default: false },
+  // Secrets and recovery code hashes are never loaded unless explicitly selected
+  twoFactorSecret: { type: String, select: false },
+  twoFactorPendingSecret: { type: String, select: false },
+  twoFactorRecoveryCodes: { type: [String], select: false, default: undefined },
+  twoFactorLastUsedStep: { type: Number, select: false }
 }, {
   timestamps: true
 });
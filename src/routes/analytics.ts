@@ -0,0 +1,12 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
+import * as analyticsController from '../controllers/analytics';
+
+const router = express.Router();
+
+router.get('/summary', authenticateToken, requirePermission('analytics:read'), analyticsController.getSalesSummary);
+router.get('/revenue', authenticateToken, requirePermission('analytics:read'), analyticsController.getRevenueOverTime);
+router.get('/top-products', authenticateToken, requirePermission('analytics:read'), analyticsController.getTopProducts);
+router.get('/revenue-by-category', authenticateToken, requirePermission('analytics:read'), analyticsController.getRevenueByCategory);
+
+export default router;
@@ -0,0 +1,9 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
+import * as auditLogsController from '../controllers/auditLogs';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, requirePermission('audit:read'), auditLogsController.getAuditLogs);
+
+export default router;
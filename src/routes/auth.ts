@@ -1,11 +1,22 @@
 import express from 'express';
-import { authenticateToken, requireAdmin } from '../middlewares/auth';
+import { authenticateToken, authenticateTwoFactorSetup, requireStaff, requirePermission } from '../middlewares/auth';
 import * as authController from '../controllers/auth';
+import * as securityController from '../controllers/security';
 
 const router = express.Router();
 
 router.post('/login', authController.adminLogin);
-router.get('/me', authenticateToken, requireAdmin, authController.getAdminProfile);
+router.post('/refresh', authController.refreshTokens);
+router.post('/logout', authController.logout);
+router.post('/2fa/verify', authController.verifyTwoFactorLogin);
+router.post('/2fa/setup', authenticateTwoFactorSetup, requireStaff, authController.setupTwoFactor);
+router.post('/2fa/activate', authenticateTwoFactorSetup, requireStaff, authController.activateTwoFactor);
+router.post('/2fa/disable', authenticateToken, requireStaff, authController.disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticateToken, requireStaff, authController.regenerateRecoveryCodes);
+router.get('/me', authenticateToken, requireStaff, authController.getAdminProfile);
+router.get('/lockouts', authenticateToken, requirePermission('security:manage'), securityController.getLockouts);
+router.post('/lockouts/:id/unlock', authenticateToken, requirePermission('security:manage'), securityController.unlockAccount);
+router.get('/login-events', authenticateToken, requirePermission('security:manage'), securityController.getLoginEvents);
 
 export default router;
 
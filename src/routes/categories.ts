@@ -1,14 +1,18 @@
 import express from 'express';
-import { authenticateToken, requireAdmin } from '../middlewares/auth';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
 import * as categoriesController from '../controllers/categories';
 
 const router = express.Router();
 
-router.get('/', authenticateToken, requireAdmin, categoriesController.getCategories);
-router.get('/:id', authenticateToken, requireAdmin, categoriesController.getCategoryById);
-router.post('/', authenticateToken, requireAdmin, categoriesController.createCategory);
-router.put('/:id', authenticateToken, requireAdmin, categoriesController.updateCategory);
-router.delete('/:id', authenticateToken, requireAdmin, categoriesController.deleteCategory);
+router.get('/', authenticateToken, requirePermission('catalog:read'), categoriesController.getCategories);
+router.patch('/reorder', authenticateToken, requirePermission('catalog:write'), categoriesController.reorderCategories);
+router.get('/trash', authenticateToken, requirePermission('catalog:read'), categoriesController.getTrashedCategories);
+router.get('/:id', authenticateToken, requirePermission('catalog:read'), categoriesController.getCategoryById);
+router.post('/', authenticateToken, requirePermission('catalog:write'), categoriesController.createCategory);
+router.put('/:id', authenticateToken, requirePermission('catalog:write'), categoriesController.updateCategory);
+router.delete('/:id', authenticateToken, requirePermission('catalog:delete'), categoriesController.deleteCategory);
+router.post('/:id/restore', authenticateToken, requirePermission('catalog:delete'), categoriesController.restoreCategory);
+router.delete('/:id/purge', authenticateToken, requirePermission('catalog:delete'), categoriesController.purgeCategory);
 
 export default router;
 
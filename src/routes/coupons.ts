@@ -0,0 +1,15 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
+import * as couponsController from '../controllers/coupons';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, requirePermission('promotions:manage'), couponsController.getCoupons);
+router.post('/evaluate', authenticateToken, requirePermission('promotions:manage'), couponsController.evaluateCouponForCart);
+router.get('/:id', authenticateToken, requirePermission('promotions:manage'), couponsController.getCouponById);
+router.get('/:id/stats', authenticateToken, requirePermission('promotions:manage'), couponsController.getCouponStats);
+router.post('/', authenticateToken, requirePermission('promotions:manage'), couponsController.createCoupon);
+router.put('/:id', authenticateToken, requirePermission('promotions:manage'), couponsController.updateCoupon);
+router.delete('/:id', authenticateToken, requirePermission('promotions:manage'), couponsController.deleteCoupon);
+
+export default router;
@@ -0,0 +1,16 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
+import * as deliverySlotsController from '../controllers/deliverySlots';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, requirePermission('orders:read'), deliverySlotsController.getDeliverySlots);
+router.get('/availability', authenticateToken, requirePermission('orders:read'), deliverySlotsController.getSlotAvailability);
+router.get('/blackouts', authenticateToken, requirePermission('orders:read'), deliverySlotsController.getBlackouts);
+router.post('/blackouts', authenticateToken, requirePermission('delivery:manage'), deliverySlotsController.createBlackout);
+router.delete('/blackouts/:id', authenticateToken, requirePermission('delivery:manage'), deliverySlotsController.deleteBlackout);
+router.post('/', authenticateToken, requirePermission('delivery:manage'), deliverySlotsController.createDeliverySlot);
+router.put('/:id', authenticateToken, requirePermission('delivery:manage'), deliverySlotsController.updateDeliverySlot);
+router.delete('/:id', authenticateToken, requirePermission('delivery:manage'), deliverySlotsController.deleteDeliverySlot);
+
+export default router;
@@ -0,0 +1,15 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
+import * as deliveryZonesController from '../controllers/deliveryZones';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, requirePermission('orders:read'), deliveryZonesController.getDeliveryZones);
+router.get('/quote', authenticateToken, requirePermission('orders:read'), deliveryZonesController.getDeliveryQuote);
+router.post('/coverage-impact', authenticateToken, requirePermission('delivery:manage'), deliveryZonesController.getCoverageImpact);
+router.get('/:id', authenticateToken, requirePermission('orders:read'), deliveryZonesController.getDeliveryZoneById);
+router.post('/', authenticateToken, requirePermission('delivery:manage'), deliveryZonesController.createDeliveryZone);
+router.put('/:id', authenticateToken, requirePermission('delivery:manage'), deliveryZonesController.updateDeliveryZone);
+router.delete('/:id', authenticateToken, requirePermission('delivery:manage'), deliveryZonesController.deleteDeliveryZone);
+
+export default router;
@@ -1,13 +1,22 @@
 import express from 'express';
-import { authenticateToken, requireAdmin } from '../middlewares/auth';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
 import * as ordersController from '../controllers/orders';
+import * as pickingController from '../controllers/picking';
+import * as paymentsController from '../controllers/payments';
 
 const router = express.Router();
 
-router.get('/', authenticateToken, requireAdmin, ordersController.getAllOrders);
-router.get('/stats', authenticateToken, requireAdmin, ordersController.getOrderStats);
-router.get('/:id', authenticateToken, requireAdmin, ordersController.getOrderById);
-router.patch('/:id/status', authenticateToken, requireAdmin, ordersController.updateOrderStatus);
+router.get('/', authenticateToken, requirePermission('orders:read'), ordersController.getAllOrders);
+router.get('/export', authenticateToken, requirePermission('orders:read'), ordersController.exportOrders);
+router.get('/picking-list', authenticateToken, requirePermission('orders:read'), pickingController.getPickingList);
+router.get('/packing-slips', authenticateToken, requirePermission('orders:read'), pickingController.getPackingSlips);
+router.get('/stats', authenticateToken, requirePermission('orders:read'), ordersController.getOrderStats);
+router.get('/:id', authenticateToken, requirePermission('orders:read'), ordersController.getOrderById);
+router.get('/:id/invoice', authenticateToken, requirePermission('orders:read'), ordersController.getOrderInvoice);
+router.patch('/:id/status', authenticateToken, requirePermission('orders:update-status'), ordersController.updateOrderStatus);
+router.post('/:id/payment/collect', authenticateToken, requirePermission('orders:update-status'), paymentsController.markCodCollected);
+router.post('/:id/refunds', authenticateToken, requirePermission('payments:manage'), paymentsController.createRefund);
+router.patch('/:id/refunds/:refundId', authenticateToken, requirePermission('payments:manage'), paymentsController.updateRefund);
 
 export default router;
 
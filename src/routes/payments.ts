@@ -0,0 +1,11 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
+import * as paymentsController from '../controllers/payments';
+
+const router = express.Router();
+
+// Gateways authenticate with a signature instead of a token
+router.post('/webhooks/:provider', paymentsController.receivePaymentWebhook);
+router.get('/reconciliation', authenticateToken, requirePermission('payments:manage'), paymentsController.getPaymentReconciliation);
+
+export default router;
@@ -1,14 +1,34 @@
 import express from 'express';
-import { authenticateToken, requireAdmin } from '../middlewares/auth';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
 import * as productsController from '../controllers/products';
+import * as pricingController from '../controllers/pricing';
 
 const router = express.Router();
 
-router.get('/', authenticateToken, requireAdmin, productsController.getProducts);
-router.get('/:id', authenticateToken, requireAdmin, productsController.getProductById);
-router.post('/', authenticateToken, requireAdmin, productsController.createProduct);
-router.put('/:id', authenticateToken, requireAdmin, productsController.updateProduct);
-router.delete('/:id', authenticateToken, requireAdmin, productsController.deleteProduct);
+router.get('/', authenticateToken, requirePermission('catalog:read'), productsController.getProducts);
+router.get('/export', authenticateToken, requirePermission('catalog:read'), productsController.exportProducts);
+router.post(
+  '/import',
+  express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+  authenticateToken,
+  requirePermission('catalog:write', 'inventory:write'),
+  productsController.importProducts
+);
+router.get('/low-stock', authenticateToken, requirePermission('catalog:read'), productsController.getLowStockProducts);
+router.get('/trash', authenticateToken, requirePermission('catalog:read'), productsController.getTrashedProducts);
+router.get('/:id', authenticateToken, requirePermission('catalog:read'), productsController.getProductById);
+router.post('/', authenticateToken, requirePermission('catalog:write'), productsController.createProduct);
+router.put('/:id', authenticateToken, requirePermission('catalog:write'), productsController.updateProduct);
+router.delete('/:id', authenticateToken, requirePermission('catalog:delete'), productsController.deleteProduct);
+router.put('/:id/images', authenticateToken, requirePermission('catalog:write'), productsController.updateProductImages);
+router.post('/:id/restore', authenticateToken, requirePermission('catalog:delete'), productsController.restoreProduct);
+router.delete('/:id/purge', authenticateToken, requirePermission('catalog:delete'), productsController.purgeProduct);
+router.post('/:id/stock-adjustments', authenticateToken, requirePermission('inventory:write'), productsController.createStockAdjustment);
+router.get('/:id/stock-movements', authenticateToken, requirePermission('catalog:read'), productsController.getStockMovements);
+router.get('/:id/price-timeline', authenticateToken, requirePermission('catalog:read'), pricingController.getPriceTimeline);
+router.get('/:id/price-schedules', authenticateToken, requirePermission('catalog:read'), pricingController.getPriceSchedules);
+router.post('/:id/price-schedules', authenticateToken, requirePermission('catalog:write'), pricingController.createPriceSchedule);
+router.delete('/:id/price-schedules/:scheduleId', authenticateToken, requirePermission('catalog:write'), pricingController.cancelPriceSchedule);
 
 export default router;
 
@@ -0,0 +1,11 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
+import { uploadImages } from '../middlewares/upload';
+import * as uploadsController from '../controllers/uploads';
+
+const router = express.Router();
+
+router.post('/', authenticateToken, requirePermission('catalog:write'), uploadImages, uploadsController.createUploads);
+router.post('/cleanup', authenticateToken, requirePermission('catalog:delete'), uploadsController.cleanupUploads);
+
+export default router;
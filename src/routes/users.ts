@@ -0,0 +1,11 @@
+import express from 'express';
+import { authenticateToken, requirePermission } from '../middlewares/auth';
+import * as usersController from '../controllers/users';
+
+const router = express.Router();
+
+router.get('/', authenticateToken, requirePermission('customers:read'), usersController.getUsers);
+router.get('/:id', authenticateToken, requirePermission('customers:read'), usersController.getUserById);
+router.patch('/:id/block', authenticateToken, requirePermission('customers:write'), usersController.setUserBlocked);
+
+export default router;
@@ -17,6 +17,7 @@ const createAdminUser = async () => {
     const adminEmail = process.env.ADMIN_EMAIL || 'admin@veggiefresh.com';
     const adminPassword = process.env.ADMIN_PASSWORD || 'admin123';
     const adminName = process.env.ADMIN_NAME || 'Admin User';
+    const requireTwoFactor = process.argv.includes('--require-2fa') || process.env.ADMIN_REQUIRE_2FA === 'true';
 
     // Check if admin user already exists
     const existingAdmin = await User.findOne({ email: adminEmail });
@@ -36,13 +37,17 @@ const createAdminUser = async () => {
       email: adminEmail,
       passwordHash: passwordHash,
       role: 'admin',
-      isPhoneVerified: true
+      isPhoneVerified: true,
+      twoFactorEnrollmentRequired: requireTwoFactor
     });
 
     await adminUser.save();
     console.log('\n✅ Admin user created successfully!');
     console.log('\n📧 Email:', adminEmail);
     console.log('🔑 Password:', adminPassword);
+    if (requireTwoFactor) {
+      console.log('🔐 Two-factor authentication must be set up on first login');
+    }
     console.log('\n⚠️  Please change the default password after first login!\n');
 
     process.exit(0);
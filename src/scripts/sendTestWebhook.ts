@@ -0,0 +1,66 @@
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { signRazorpayPayload, signStripePayload } from '../services/payments';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Send a correctly signed payment webhook to a locally running server, to
+ * exercise the webhook receiver without a real gateway.
+ *
+ * Usage: npm run payment-webhook-stub -- <razorpay|stripe> <event> <gatewayOrderOrPaymentId> [amount] [refundId]
+ */
+const sendTestWebhook = async () => {
+  const [provider, event, reference, amountArg = '0', refundId = `rfnd_${crypto.randomBytes(6).toString('hex')}`] = process.argv.slice(2);
+
+  if (!provider || !event || !reference || !['razorpay', 'stripe'].includes(provider)) {
+    console.log('Usage: npm run payment-webhook-stub -- <razorpay|stripe> <event> <gatewayOrderOrPaymentId> [amount] [refundId]');
+    process.exit(1);
+  }
+
+  const amount = Math.round(Number(amountArg) * 100);
+  const port = process.env.PORT || 3001;
+  let body: string;
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+  if (provider === 'razorpay') {
+    const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+    if (!secret) throw new Error('RAZORPAY_WEBHOOK_SECRET is not configured');
+
+    body = JSON.stringify({
+      event,
+      created_at: Math.floor(Date.now() / 1000),
+      payload: {
+        payment: { entity: { id: reference.startsWith('pay_') ? reference : `pay_${crypto.randomBytes(6).toString('hex')}`, order_id: reference, amount, error_description: 'Stub failure' } },
+        refund: { entity: { id: refundId, payment_id: reference, amount } }
+      }
+    });
+    headers['X-Razorpay-Signature'] = signRazorpayPayload(body, secret);
+    headers['X-Razorpay-Event-Id'] = `evt_${crypto.randomBytes(8).toString('hex')}`;
+  } else {
+    const secret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!secret) throw new Error('STRIPE_WEBHOOK_SECRET is not configured');
+
+    const isRefund = event.startsWith('refund.') || event.startsWith('charge.refund');
+    body = JSON.stringify({
+      id: `evt_${crypto.randomBytes(8).toString('hex')}`,
+      type: event,
+      data: {
+        object: isRefund
+          ? { id: refundId, payment_intent: reference, amount, status: process.env.STUB_REFUND_STATUS || 'succeeded' }
+          : { id: reference, amount_received: amount, last_payment_error: { message: 'Stub failure' } }
+      }
+    });
+    headers['Stripe-Signature'] = signStripePayload(body, secret);
+  }
+
+  const response = await fetch(`http://localhost:${port}/payments/webhooks/${provider}`, { method: 'POST', headers, body });
+  console.log(`${response.status} ${await response.text()}`);
+};
+
+// Run the script
+sendTestWebhook().catch((error) => {
+  console.error('❌ Error sending webhook:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+import { AuthRequest } from '../middlewares/auth';
+import { AuditLog, AuditAction, AuditEntityType } from '../models/AuditLog';
+import { logger } from '../utils/logger';
+
+const IGNORED_FIELDS = ['__v', 'createdAt', 'updatedAt'];
+
+// Fields that say what a snapshot describes, kept even when unchanged
+const IDENTITY_FIELDS = ['_id', 'unit'];
+
+interface AuditEntry {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: mongoose.Types.ObjectId | string;
+  before?: unknown;
+  after?: unknown;
+}
+
+const toPlain = (value: unknown): Record<string, unknown> | undefined => {
+  if (!value) return undefined;
+  const plain = value instanceof mongoose.Document ? value.toObject({ depopulate: true }) : value;
+  return JSON.parse(JSON.stringify(plain));
+};
+
+// Keep only the top-level fields whose values differ between before and after,
+// plus any identifying fields so the entry still says what changed
+export const diffSnapshots = (before?: Record<string, unknown>, after?: Record<string, unknown>) => {
+  if (!before || !after) {
+    return { before, after };
+  }
+
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (IGNORED_FIELDS.includes(key)) continue;
+    if (IDENTITY_FIELDS.includes(key) || JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key];
+      changedAfter[key] = after[key];
+    }
+  }
+
+  return { before: changedBefore, after: changedAfter };
+};
+
+/**
+ * Record an admin mutation. Snapshots may be documents or plain objects;
+ * updates are reduced to the fields that changed. Failures are logged and
+ * never fail the request that triggered them.
+ */
+export const recordAudit = async (req: AuthRequest, entry: AuditEntry) => {
+  try {
+    const { before, after } = diffSnapshots(toPlain(entry.before), toPlain(entry.after));
+
+    await AuditLog.create({
+      actorId: req.user?._id,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      before,
+      after,
+      ip: req.ip,
+      userAgent: req.get('user-agent')
+    });
+  } catch (error) {
+    logger.error('Record audit log error:', error);
+  }
+};
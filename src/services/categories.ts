@@ -0,0 +1,82 @@
+import mongoose from 'mongoose';
+import { Category, ICategory } from '../models/Category';
+
+export interface CategoryTreeNode {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  iconUrl?: string;
+  parentId: mongoose.Types.ObjectId | null;
+  sort: number;
+  isActive: boolean;
+  children: CategoryTreeNode[];
+}
+
+// Ids of every category below the given one (not including it)
+export const getDescendantCategoryIds = async (categoryId: string | mongoose.Types.ObjectId) => {
+  const [result] = await Category.aggregate([
+    { $match: { _id: new mongoose.Types.ObjectId(String(categoryId)) } },
+    {
+      $graphLookup: {
+        from: Category.collection.name,
+        startWith: '$_id',
+        connectFromField: '_id',
+        connectToField: 'parentId',
+        as: 'descendants'
+      }
+    },
+    { $project: { ids: '$descendants._id' } }
+  ]);
+  return (result?.ids ?? []) as mongoose.Types.ObjectId[];
+};
+
+export const getCategoryParentMap = async () => {
+  const categories = await Category.find({ deletedAt: null }).select('parentId').lean();
+  return new Map<string, string | null>(categories.map((c) => [c._id.toString(), c.parentId ? c.parentId.toString() : null]));
+};
+
+/**
+ * Returns the first of `ids` whose ancestor chain loops back on itself in
+ * the given child -> parent map, or null when the hierarchy is a forest.
+ */
+export const findCategoryInCycle = (parents: Map<string, string | null>, ids: string[]) => {
+  for (const id of ids) {
+    const seen = new Set<string>([id]);
+    let current = parents.get(id) ?? null;
+    while (current) {
+      if (seen.has(current)) {
+        return id;
+      }
+      seen.add(current);
+      current = parents.get(current) ?? null;
+    }
+  }
+  return null;
+};
+
+export const buildCategoryTree = (categories: ICategory[]) => {
+  const nodes = new Map<string, CategoryTreeNode>();
+  for (const category of categories) {
+    nodes.set(category._id.toString(), {
+      _id: category._id,
+      name: category.name,
+      iconUrl: category.iconUrl,
+      parentId: category.parentId ?? null,
+      sort: category.sort,
+      isActive: category.isActive,
+      children: []
+    });
+  }
+
+  // Categories arrive sorted, so children keep their sibling order
+  const roots: CategoryTreeNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parentId ? nodes.get(node.parentId.toString()) : undefined;
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+
+  return roots;
+};
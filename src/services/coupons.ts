@@ -0,0 +1,134 @@
+import mongoose from 'mongoose';
+import { Coupon, ICoupon } from '../models/Coupon';
+import { Order } from '../models/Order';
+import { Product } from '../models/Product';
+import { ICartItem } from '../models/Cart';
+
+export type CouponRejection =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'min_subtotal'
+  | 'usage_limit'
+  | 'per_user_limit'
+  | 'not_applicable';
+
+export type CouponEvaluation =
+  | {
+      valid: true;
+      couponId: mongoose.Types.ObjectId;
+      code: string;
+      discount: number;
+      freeDelivery: boolean;
+      eligibleSubtotal: number;
+    }
+  | {
+      valid: false;
+      reason: CouponRejection;
+      message: string;
+    };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const reject = (reason: CouponRejection, message: string): CouponEvaluation => ({ valid: false, reason, message });
+
+// Orders that used a coupon and still count towards its limits
+export const couponUsageQuery = (couponId: mongoose.Types.ObjectId, userId?: mongoose.Types.ObjectId | string) => ({
+  'coupon.couponId': couponId,
+  status: { $ne: 'cancelled' },
+  ...(userId ? { userId } : {})
+});
+
+// Subtotal of the items the coupon applies to; all items when unrestricted
+const getEligibleSubtotal = async (coupon: ICoupon, items: ICartItem[]) => {
+  const restrictProducts = coupon.productIds.length > 0;
+  const restrictCategories = coupon.categoryIds.length > 0;
+  if (!restrictProducts && !restrictCategories) {
+    return items.reduce((sum, item) => sum + item.price, 0);
+  }
+
+  const productIds = new Set(coupon.productIds.map(String));
+  const categoryIds = new Set(coupon.categoryIds.map(String));
+  const products = restrictCategories
+    ? await Product.find({ _id: { $in: items.map((item) => item.productId) } }).select('categoryId')
+    : [];
+  const categoryByProduct = new Map(products.map((p) => [p._id.toString(), p.categoryId.toString()]));
+
+  return items
+    .filter((item) => productIds.has(String(item.productId))
+      || categoryIds.has(categoryByProduct.get(String(item.productId)) ?? ''))
+    .reduce((sum, item) => sum + item.price, 0);
+};
+
+/**
+ * Work out what a coupon is worth for a cart and user. Returns the discount
+ * (never more than the eligible subtotal) and whether delivery is free, or
+ * the reason the coupon cannot be used.
+ */
+export const evaluateCoupon = async (
+  codeOrCoupon: string | ICoupon,
+  items: ICartItem[],
+  userId?: mongoose.Types.ObjectId | string,
+  now = new Date()
+): Promise<CouponEvaluation> => {
+  const coupon = typeof codeOrCoupon === 'string'
+    ? await Coupon.findOne({ code: codeOrCoupon.trim().toUpperCase() })
+    : codeOrCoupon;
+
+  if (!coupon) {
+    return reject('not_found', 'Coupon does not exist');
+  }
+  if (!coupon.isActive) {
+    return reject('inactive', 'Coupon is not active');
+  }
+  if (coupon.validFrom && now < coupon.validFrom) {
+    return reject('not_started', 'Coupon is not valid yet');
+  }
+  if (coupon.validUntil && now > coupon.validUntil) {
+    return reject('expired', 'Coupon has expired');
+  }
+
+  const subtotal = items.reduce((sum, item) => sum + item.price, 0);
+  if (subtotal < coupon.minSubtotal) {
+    return reject('min_subtotal', `Minimum order of ${coupon.minSubtotal} required`);
+  }
+
+  if (coupon.usageLimit) {
+    const used = await Order.countDocuments(couponUsageQuery(coupon._id));
+    if (used >= coupon.usageLimit) {
+      return reject('usage_limit', 'Coupon usage limit reached');
+    }
+  }
+
+  if (coupon.perUserLimit && userId) {
+    const usedByUser = await Order.countDocuments(couponUsageQuery(coupon._id, userId));
+    if (usedByUser >= coupon.perUserLimit) {
+      return reject('per_user_limit', 'Coupon already used the maximum number of times');
+    }
+  }
+
+  const eligibleSubtotal = await getEligibleSubtotal(coupon, items);
+  if (eligibleSubtotal <= 0) {
+    return reject('not_applicable', 'Coupon does not apply to any item in the cart');
+  }
+
+  let discount = 0;
+  if (coupon.type === 'percentage') {
+    discount = eligibleSubtotal * coupon.value / 100;
+    if (coupon.maxDiscount !== undefined) {
+      discount = Math.min(discount, coupon.maxDiscount);
+    }
+  } else if (coupon.type === 'flat') {
+    discount = coupon.value;
+  }
+
+  return {
+    valid: true,
+    couponId: coupon._id,
+    code: coupon.code,
+    discount: round2(Math.min(discount, eligibleSubtotal)),
+    freeDelivery: coupon.type === 'free_delivery',
+    eligibleSubtotal: round2(eligibleSubtotal)
+  };
+};
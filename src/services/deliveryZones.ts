@@ -0,0 +1,123 @@
+import { DeliveryZone, IDeliveryZone } from '../models/DeliveryZone';
+import { Order } from '../models/Order';
+import { User } from '../models/User';
+
+export interface DeliveryQuote {
+  zoneId: string;
+  zoneName: string;
+  subtotal: number;
+  baseFee: number;
+  expressSurcharge: number;
+  fee: number;
+  freeDelivery: boolean;
+  amountToFreeDelivery: number | null;
+  minOrderValue: number;
+  meetsMinimum: boolean;
+}
+
+export interface CoverageReport {
+  orders: number;
+  openOrders: number;
+  customers: number;
+  pincodes: string[];
+}
+
+const OPEN_ORDER_STATUSES = ['placed', 'confirmed', 'preparing', 'out_for_delivery'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const normalizePincode = (value: string) => value.replace(/\s+/g, '');
+
+export const findZoneForPincode = (pincode: string) =>
+  DeliveryZone.findOne({ pincodes: normalizePincode(pincode), isActive: true });
+
+export const quoteDeliveryFee = (zone: IDeliveryZone, subtotal: number, express = false): DeliveryQuote => {
+  const freeDelivery = zone.freeDeliveryAbove !== undefined && zone.freeDeliveryAbove !== null
+    && subtotal >= zone.freeDeliveryAbove;
+  const expressSurcharge = express ? zone.expressSurcharge : 0;
+
+  return {
+    zoneId: zone._id.toString(),
+    zoneName: zone.name,
+    subtotal,
+    baseFee: freeDelivery ? 0 : zone.baseFee,
+    expressSurcharge,
+    fee: round2((freeDelivery ? 0 : zone.baseFee) + expressSurcharge),
+    freeDelivery,
+    amountToFreeDelivery: zone.freeDeliveryAbove !== undefined && zone.freeDeliveryAbove !== null && !freeDelivery
+      ? round2(zone.freeDeliveryAbove - subtotal)
+      : null,
+    minOrderValue: zone.minOrderValue,
+    meetsMinimum: subtotal >= zone.minOrderValue
+  };
+};
+
+// Pincodes of active zones that already claim any of the given pincodes
+export const findPincodeConflicts = async (pincodes: string[], excludeZoneId?: string) => {
+  if (pincodes.length === 0) {
+    return [];
+  }
+
+  const query: any = { pincodes: { $in: pincodes }, isActive: true };
+  if (excludeZoneId) {
+    query._id = { $ne: excludeZoneId };
+  }
+
+  const zones = await DeliveryZone.find(query).select('name pincodes');
+  const requested = new Set(pincodes);
+  return zones.flatMap((zone) => zone.pincodes
+    .filter((pincode) => requested.has(pincode))
+    .map((pincode) => ({ pincode, zoneId: zone._id, zoneName: zone.name })));
+};
+
+export const getServiceablePincodes = async () => {
+  const pincodes: string[] = await DeliveryZone.distinct('pincodes', { isActive: true });
+  return new Set(pincodes);
+};
+
+/**
+ * Counts the orders and customers that fall outside each of the given
+ * coverage sets. Orders are matched on their delivery address; customers
+ * are outside when none of their saved addresses is serviceable.
+ */
+export const getCoverageReports = async (coverages: Set<string>[]): Promise<CoverageReport[]> => {
+  const orderPincodes: { _id: string; orders: number; openOrders: number }[] = await Order.aggregate([
+    { $match: { status: { $ne: 'cancelled' } } },
+    {
+      $group: {
+        _id: '$address.pincode',
+        orders: { $sum: 1 },
+        openOrders: { $sum: { $cond: [{ $in: ['$status', OPEN_ORDER_STATUSES] }, 1, 0] } }
+      }
+    }
+  ]);
+
+  const customers = await User.find({ role: 'user', 'addresses.0': { $exists: true } })
+    .select('addresses.pincode')
+    .lean();
+
+  return coverages.map((coverage) => {
+    const report: CoverageReport = { orders: 0, openOrders: 0, customers: 0, pincodes: [] };
+    const uncovered = new Set<string>();
+
+    for (const group of orderPincodes) {
+      const pincode = normalizePincode(String(group._id ?? ''));
+      if (!coverage.has(pincode)) {
+        report.orders += group.orders;
+        report.openOrders += group.openOrders;
+        uncovered.add(pincode);
+      }
+    }
+
+    for (const customer of customers) {
+      const pincodes = customer.addresses.map((address) => normalizePincode(address.pincode));
+      if (!pincodes.some((pincode) => coverage.has(pincode))) {
+        report.customers += 1;
+        pincodes.forEach((pincode) => uncovered.add(pincode));
+      }
+    }
+
+    report.pincodes = [...uncovered].filter(Boolean).sort();
+    return report;
+  });
+};
@@ -0,0 +1,167 @@
+import mongoose from 'mongoose';
+import { Product, IUnitPrice } from '../models/Product';
+import { ICartItem } from '../models/Cart';
+import { StockMovement, StockMovementReason } from '../models/StockMovement';
+
+export interface StockShortage {
+  productId: string;
+  name: string;
+  unit: ICartItem['unit'];
+  requested: number;
+  available: number;
+}
+
+export interface StockMovementContext {
+  orderId?: mongoose.Types.ObjectId;
+  userId?: mongoose.Types.ObjectId;
+  note?: string;
+}
+
+interface StockLine {
+  productId: mongoose.Types.ObjectId;
+  name: string;
+  unit: ICartItem['unit'];
+  qty: number;
+}
+
+interface AppliedLine extends StockLine {
+  stockAfter?: number;
+}
+
+// Merge order items that share the same product + unit
+const toStockLines = (items: ICartItem[]): StockLine[] => {
+  const lines = new Map<string, StockLine>();
+
+  for (const item of items) {
+    const key = `${item.productId}:${item.unit}`;
+    const line = lines.get(key);
+    if (line) {
+      line.qty += item.qty;
+    } else {
+      lines.set(key, {
+        productId: new mongoose.Types.ObjectId(item.productId.toString()),
+        name: item.name,
+        unit: item.unit,
+        qty: item.qty
+      });
+    }
+  }
+
+  return Array.from(lines.values());
+};
+
+const findUnitStock = (unitPrices: IUnitPrice[] | undefined, unit: IUnitPrice['unit']) =>
+  unitPrices?.find((up) => up.unit === unit)?.stock;
+
+/**
+ * Atomically apply a stock delta to one product unit. Negative deltas only
+ * succeed when enough stock is available. Returns the resulting stock, or
+ * null if the product/unit is missing or stock would go below zero.
+ */
+export const applyStockDelta = async (
+  productId: mongoose.Types.ObjectId | string,
+  unit: IUnitPrice['unit'],
+  delta: number
+): Promise<number | null> => {
+  const unitMatch = delta < 0
+    ? { unit, stock: { $gte: -delta } }
+    : { unit };
+
+  const product = await Product.findOneAndUpdate(
+    { _id: productId, unitPrices: { $elemMatch: unitMatch } },
+    { $inc: { 'unitPrices.$.stock': delta, __v: 1 } },
+    { new: true, projection: { unitPrices: 1 } }
+  );
+
+  if (!product) {
+    return null;
+  }
+  return findUnitStock(product.unitPrices, unit) ?? null;
+};
+
+export const getAvailableStock = async (productId: mongoose.Types.ObjectId | string, unit: IUnitPrice['unit']) => {
+  const product = await Product.findById(productId).select('unitPrices');
+  return findUnitStock(product?.unitPrices, unit) ?? 0;
+};
+
+export const recordStockMovement = async (
+  productId: mongoose.Types.ObjectId | string,
+  unit: IUnitPrice['unit'],
+  delta: number,
+  reason: StockMovementReason,
+  context: StockMovementContext & { stockAfter?: number } = {}
+) => {
+  return StockMovement.create({
+    productId,
+    unit,
+    delta,
+    reason,
+    stockAfter: context.stockAfter,
+    orderId: context.orderId,
+    createdBy: context.userId,
+    note: context.note
+  });
+};
+
+const recordLines = async (
+  lines: AppliedLine[],
+  sign: 1 | -1,
+  reason: StockMovementReason,
+  context: StockMovementContext
+) => {
+  await Promise.all(lines.map((line) =>
+    recordStockMovement(line.productId, line.unit, sign * line.qty, reason, {
+      ...context,
+      stockAfter: line.stockAfter
+    })
+  ));
+};
+
+/**
+ * Reserve stock for every order item. Each decrement is conditional on enough
+ * stock being available, so concurrent reservations can never oversell.
+ * If any item is short, the lines already taken are put back and the
+ * shortages are returned; an empty array means everything was reserved
+ * and a `sale` movement was recorded per line.
+ */
+export const reserveOrderStock = async (
+  items: ICartItem[],
+  context: StockMovementContext = {}
+): Promise<StockShortage[]> => {
+  const lines = toStockLines(items);
+  const reserved: AppliedLine[] = [];
+  const shortages: StockShortage[] = [];
+
+  for (const line of lines) {
+    const stockAfter = await applyStockDelta(line.productId, line.unit, -line.qty);
+    if (stockAfter !== null) {
+      reserved.push({ ...line, stockAfter });
+    } else {
+      shortages.push({
+        productId: line.productId.toString(),
+        name: line.name,
+        unit: line.unit,
+        requested: line.qty,
+        available: await getAvailableStock(line.productId, line.unit)
+      });
+    }
+  }
+
+  if (shortages.length > 0) {
+    await Promise.all(reserved.map((line) => applyStockDelta(line.productId, line.unit, line.qty)));
+    return shortages;
+  }
+
+  await recordLines(reserved, -1, 'sale', context);
+  return shortages;
+};
+
+// Put reserved stock back, e.g. when a confirmed order is cancelled
+export const releaseOrderStock = async (items: ICartItem[], context: StockMovementContext = {}) => {
+  const released: AppliedLine[] = await Promise.all(toStockLines(items).map(async (line) => ({
+    ...line,
+    stockAfter: (await applyStockDelta(line.productId, line.unit, line.qty)) ?? undefined
+  })));
+
+  await recordLines(released, 1, 'cancellation', context);
+};
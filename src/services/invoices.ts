@@ -0,0 +1,163 @@
+import PDFDocument from 'pdfkit';
+import { Writable } from 'stream';
+import { Order, IOrder, IInvoice } from '../models/Order';
+import { nextSequence } from '../models/Counter';
+import { getDatePartsInZone, STORE_TIMEZONE } from '../utils/dates';
+import { getStoreDetails } from '../utils/store';
+import { runInTransaction } from '../utils/transaction';
+
+const INVOICE_PREFIX = process.env.INVOICE_PREFIX || 'INV';
+
+// GST rate in percent; item prices and delivery fees are tax-inclusive
+const TAX_RATE = Number(process.env.INVOICE_TAX_RATE || 0);
+
+// Indian financial years run April to March in the store's timezone, e.g. "2024-25"
+export const financialYearFor = (date: Date) => {
+  const { year, month } = getDatePartsInZone(date, STORE_TIMEZONE);
+  const startYear = month >= 4 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+};
+
+// Thrown inside the allocation transaction to roll back the sequence
+class InvoiceAlreadyIssued extends Error {}
+
+// Calendar date in the store's timezone, e.g. "2024-03-31"
+const formatStoreDate = (date: Date) => {
+  const { year, month, day } = getDatePartsInZone(date, STORE_TIMEZONE);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+/**
+ * Return the order's invoice details, allocating the next number for the
+ * current financial year on first use. Once stored on the order the number
+ * never changes, so regenerating an invoice always reuses it. The number is
+ * allocated and attached in one transaction, so a request that loses the
+ * race to invoice the order rolls back its increment and leaves no gap.
+ */
+export const ensureInvoice = async (order: IOrder): Promise<IInvoice> => {
+  if (order.invoice?.number) {
+    return order.invoice;
+  }
+
+  try {
+    return await runInTransaction(async (session) => {
+      const issuedAt = new Date();
+      const financialYear = financialYearFor(issuedAt);
+      const sequence = await nextSequence(`invoice:${financialYear}`, session);
+      const invoice: IInvoice = {
+        number: `${INVOICE_PREFIX}/${financialYear}/${String(sequence).padStart(6, '0')}`,
+        financialYear,
+        sequence,
+        issuedAt
+      };
+
+      // Only the first concurrent request may attach a number
+      const updated = await Order.findOneAndUpdate(
+        { _id: order._id, 'invoice.number': { $exists: false } },
+        { $set: { invoice } },
+        { new: true, session }
+      );
+
+      if (!updated?.invoice) {
+        throw new InvoiceAlreadyIssued();
+      }
+      return updated.invoice;
+    });
+  } catch (error) {
+    if (!(error instanceof InvoiceAlreadyIssued)) {
+      throw error;
+    }
+  }
+
+  const current = await Order.findById(order._id).select('invoice');
+  return current!.invoice!;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Split a tax-inclusive amount into taxable value and CGST/SGST halves
+export const splitTax = (amount: number, ratePercent = TAX_RATE) => {
+  const taxable = round2(amount / (1 + ratePercent / 100));
+  const tax = round2(amount - taxable);
+  const cgst = round2(tax / 2);
+  return { taxable, tax, cgst, sgst: round2(tax - cgst), rate: ratePercent };
+};
+
+const money = (value: number) => `Rs. ${value.toFixed(2)}`;
+
+export const writeInvoicePdf = (order: IOrder, invoice: IInvoice, output: Writable) => {
+  const store = getStoreDetails();
+  const customer = order.userId as any;
+  const address = order.address;
+  const doc = new PDFDocument({ size: 'A4', margin: 50 });
+  doc.pipe(output);
+
+  doc.fontSize(18).text('TAX INVOICE', { align: 'right' });
+  doc.fontSize(14).text(store.name);
+  doc.fontSize(9);
+  if (store.address) doc.text(store.address);
+  if (store.phone || store.email) doc.text([store.phone, store.email].filter(Boolean).join(' | '));
+  if (store.gstin) doc.text(`GSTIN: ${store.gstin}`);
+  doc.moveDown();
+
+  doc.fontSize(10)
+    .text(`Invoice No: ${invoice.number}`)
+    .text(`Invoice Date: ${formatStoreDate(invoice.issuedAt)}`)
+    .text(`Order ID: ${order._id}`)
+    .text(`Order Date: ${formatStoreDate(order.createdAt)}`);
+  doc.moveDown();
+
+  doc.fontSize(11).text('Bill To');
+  doc.fontSize(10)
+    .text(address?.name || customer?.name || '')
+    .text([address?.line1, address?.line2].filter(Boolean).join(', '))
+    .text(`${address?.city ?? ''}, ${address?.state ?? ''} ${address?.pincode ?? ''}`)
+    .text(address?.country ?? '');
+  if (customer?.phone) doc.text(`Phone: ${customer.phone}`);
+  doc.moveDown();
+
+  // Line items
+  const columns = { item: 50, unit: 280, qty: 330, rate: 390, amount: 470 };
+  const header = doc.y;
+  doc.fontSize(10)
+    .text('Item', columns.item, header)
+    .text('Unit', columns.unit, header)
+    .text('Qty', columns.qty, header)
+    .text('Rate', columns.rate, header)
+    .text('Amount', columns.amount, header);
+  doc.moveTo(50, doc.y + 2).lineTo(545, doc.y + 2).stroke();
+  doc.moveDown(0.5);
+
+  for (const item of order.items) {
+    const y = doc.y;
+    doc.text(item.name, columns.item, y, { width: 220 })
+      .text(item.unit, columns.unit, y)
+      .text(String(item.qty), columns.qty, y)
+      .text(money(item.unitPrice), columns.rate, y)
+      .text(money(item.price), columns.amount, y);
+    doc.moveDown(0.3);
+  }
+  doc.moveTo(50, doc.y + 2).lineTo(545, doc.y + 2).stroke();
+  doc.moveDown();
+
+  // Totals with tax breakdown; coupon discounts reduce the item value that is taxed
+  const itemsTax = splitTax(Math.max(0, order.subtotal - (order.discount || 0)));
+  const deliveryTax = splitTax(order.deliveryFee || 0);
+  const totals: [string, number][] = [
+    ['Subtotal', order.subtotal],
+    ['Delivery Fee', order.deliveryFee || 0],
+    ...(order.discount ? [[`Discount${order.coupon ? ` (${order.coupon.code})` : ''}`, -order.discount] as [string, number]] : []),
+    ['Taxable Value', round2(itemsTax.taxable + deliveryTax.taxable)],
+    [`CGST @ ${TAX_RATE / 2}%`, round2(itemsTax.cgst + deliveryTax.cgst)],
+    [`SGST @ ${TAX_RATE / 2}%`, round2(itemsTax.sgst + deliveryTax.sgst)],
+    ['Total', order.total]
+  ];
+  for (const [label, value] of totals) {
+    const y = doc.y;
+    doc.text(label, columns.rate - 60, y).text(money(value), columns.amount, y);
+  }
+
+  doc.moveDown(2);
+  doc.fontSize(8).text('Amounts are inclusive of applicable taxes.', 50);
+  doc.end();
+};
@@ -0,0 +1,79 @@
+import mongoose from 'mongoose';
+import { LoginThrottle } from '../models/LoginThrottle';
+import { LoginEvent, LoginEventOutcome } from '../models/LoginEvent';
+import { logger } from '../utils/logger';
+
+// Failures allowed before backoff starts, and before the account is locked out
+const BACKOFF_AFTER_FAILURES = 3;
+export const LOCKOUT_AFTER_FAILURES = 5;
+const BACKOFF_BASE_SECONDS = 30;
+const LOCKOUT_MINUTES = 15;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Seconds the email is blocked from further attempts for after `failedCount` failures
+const lockSecondsFor = (failedCount: number) => {
+  if (failedCount >= LOCKOUT_AFTER_FAILURES) {
+    return LOCKOUT_MINUTES * 60;
+  }
+  if (failedCount >= BACKOFF_AFTER_FAILURES) {
+    return BACKOFF_BASE_SECONDS * 2 ** (failedCount - BACKOFF_AFTER_FAILURES);
+  }
+  return 0;
+};
+
+// Remaining seconds before another login attempt is allowed for this email, 0 if none
+export const getRetryAfterSeconds = async (email: string) => {
+  const throttle = await LoginThrottle.findOne({ email: normalizeEmail(email) }).select('lockedUntil');
+  if (!throttle?.lockedUntil) {
+    return 0;
+  }
+  return Math.max(0, Math.ceil((throttle.lockedUntil.getTime() - Date.now()) / 1000));
+};
+
+export const registerLoginFailure = async (email: string) => {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - LOCKOUT_MINUTES * 60 * 1000);
+
+  // Start counting again once a lockout has run out or the last failure is older than the lockout window
+  await LoginThrottle.updateOne(
+    {
+      email: normalizeEmail(email),
+      $or: [
+        { failedCount: { $gte: LOCKOUT_AFTER_FAILURES }, lockedUntil: { $lte: now } },
+        { lastFailedAt: { $lt: windowStart } }
+      ]
+    },
+    { $set: { failedCount: 0 }, $unset: { lockedUntil: '' } }
+  );
+
+  const throttle = await LoginThrottle.findOneAndUpdate(
+    { email: normalizeEmail(email) },
+    { $inc: { failedCount: 1 }, $set: { lastFailedAt: now } },
+    { new: true, upsert: true }
+  );
+
+  const lockSeconds = lockSecondsFor(throttle.failedCount);
+  if (lockSeconds > 0) {
+    throttle.lockedUntil = new Date(now.getTime() + lockSeconds * 1000);
+    await throttle.save();
+  }
+};
+
+export const clearLoginFailures = async (email: string) => {
+  await LoginThrottle.deleteOne({ email: normalizeEmail(email) });
+};
+
+export const recordLoginEvent = async (event: {
+  email: string;
+  outcome: LoginEventOutcome;
+  userId?: mongoose.Types.ObjectId;
+  ip?: string;
+  userAgent?: string;
+}) => {
+  try {
+    await LoginEvent.create({ ...event, email: normalizeEmail(event.email), success: event.outcome === 'success' });
+  } catch (error) {
+    logger.error('Record login event error:', error);
+  }
+};
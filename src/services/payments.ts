@@ -0,0 +1,270 @@
+import crypto from 'crypto';
+import mongoose, { ClientSession } from 'mongoose';
+import { Order, IOrder } from '../models/Order';
+import { PaymentEvent } from '../models/PaymentEvent';
+import { runInTransaction } from '../utils/transaction';
+
+export type PaymentProvider = 'razorpay' | 'stripe';
+
+const STRIPE_TOLERANCE_SECONDS = 5 * 60;
+
+// Payment statuses meaning money has been received for the order
+const RECEIVED_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+export class WebhookSignatureError extends Error {
+  status = 400;
+}
+
+interface NormalizedEvent {
+  eventId: string;
+  type: string;
+  kind: 'payment_paid' | 'payment_failed' | 'refund_processed' | 'refund_failed' | 'other';
+  gatewayOrderId?: string;
+  gatewayPaymentId?: string;
+  gatewayRefundId?: string;
+  amount?: number;
+  failureReason?: string;
+}
+
+const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+const hmacHex = (secret: string, payload: string | Buffer) =>
+  crypto.createHmac('sha256', secret).update(payload).digest('hex');
+
+const getWebhookSecret = (provider: PaymentProvider) => {
+  const secret = provider === 'razorpay' ? process.env.RAZORPAY_WEBHOOK_SECRET : process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error(`${provider} webhook secret is not configured`);
+  }
+  return secret;
+};
+
+// Razorpay signs the raw body with HMAC-SHA256 in `X-Razorpay-Signature`
+export const signRazorpayPayload = (rawBody: string | Buffer, secret: string) => hmacHex(secret, rawBody);
+
+// Stripe signs `${timestamp}.${rawBody}` and sends `t=...,v1=...` in `Stripe-Signature`
+export const signStripePayload = (rawBody: string | Buffer, secret: string, timestamp = Math.floor(Date.now() / 1000)) =>
+  `t=${timestamp},v1=${hmacHex(secret, `${timestamp}.${rawBody.toString()}`)}`;
+
+export const verifyWebhookSignature = (provider: PaymentProvider, rawBody: Buffer | undefined, header: string | undefined) => {
+  if (!rawBody || !header) {
+    throw new WebhookSignatureError('Missing webhook signature');
+  }
+
+  const secret = getWebhookSecret(provider);
+
+  if (provider === 'razorpay') {
+    if (!safeEqual(signRazorpayPayload(rawBody, secret), header)) {
+      throw new WebhookSignatureError('Invalid webhook signature');
+    }
+    return;
+  }
+
+  const parts = header.split(',').map((part) => part.split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+  if (!timestamp || Math.abs(Date.now() / 1000 - timestamp) > STRIPE_TOLERANCE_SECONDS) {
+    throw new WebhookSignatureError('Webhook timestamp outside tolerance');
+  }
+
+  const expected = hmacHex(secret, `${timestamp}.${rawBody.toString()}`);
+  if (!signatures.some((signature) => safeEqual(expected, signature))) {
+    throw new WebhookSignatureError('Invalid webhook signature');
+  }
+};
+
+// Gateways report amounts in the smallest currency unit
+const fromMinorUnits = (amount: unknown) => (typeof amount === 'number' ? amount / 100 : undefined);
+
+const normalizeRazorpayEvent = (body: any, eventIdHeader?: string): NormalizedEvent => {
+  const payment = body?.payload?.payment?.entity;
+  const refund = body?.payload?.refund?.entity;
+  const type = String(body?.event ?? 'unknown');
+  const base = {
+    eventId: eventIdHeader || `${type}:${refund?.id ?? payment?.id ?? body?.created_at}`,
+    type,
+    gatewayOrderId: payment?.order_id,
+    gatewayPaymentId: refund?.payment_id ?? payment?.id
+  };
+
+  switch (type) {
+    case 'payment.captured':
+    case 'order.paid':
+      return { ...base, kind: 'payment_paid', amount: fromMinorUnits(payment?.amount) };
+    case 'payment.failed':
+      return { ...base, kind: 'payment_failed', failureReason: payment?.error_description };
+    case 'refund.processed':
+      return { ...base, kind: 'refund_processed', gatewayRefundId: refund?.id, amount: fromMinorUnits(refund?.amount) };
+    case 'refund.failed':
+      return { ...base, kind: 'refund_failed', gatewayRefundId: refund?.id, amount: fromMinorUnits(refund?.amount) };
+    default:
+      return { ...base, kind: 'other' };
+  }
+};
+
+const normalizeStripeEvent = (body: any): NormalizedEvent => {
+  const object = body?.data?.object ?? {};
+  const type = String(body?.type ?? 'unknown');
+  const base = { eventId: String(body?.id), type };
+
+  switch (type) {
+    case 'payment_intent.succeeded':
+      return { ...base, kind: 'payment_paid', gatewayPaymentId: object.id, amount: fromMinorUnits(object.amount_received) };
+    case 'payment_intent.payment_failed':
+      return { ...base, kind: 'payment_failed', gatewayPaymentId: object.id, failureReason: object.last_payment_error?.message };
+    case 'refund.created':
+    case 'refund.updated':
+    case 'charge.refund.updated': {
+      const refundBase = { ...base, gatewayPaymentId: object.payment_intent, gatewayRefundId: object.id, amount: fromMinorUnits(object.amount) };
+      if (object.status === 'succeeded') return { ...refundBase, kind: 'refund_processed' };
+      if (object.status === 'failed' || object.status === 'canceled') {
+        return { ...refundBase, kind: 'refund_failed', failureReason: object.failure_reason };
+      }
+      return { ...refundBase, kind: 'other' };
+    }
+    default:
+      return { ...base, kind: 'other' };
+  }
+};
+
+export const getPaidAmount = (order: IOrder) => order.payment.amountPaid ?? order.total;
+
+export const isPaymentReceived = (order: IOrder) => RECEIVED_STATUSES.includes(order.payment.status);
+
+// Money still available to refund, counting pending and processed refunds
+export const getRefundableAmount = (order: IOrder) => {
+  const committed = order.refunds
+    .filter((refund) => refund.status !== 'failed')
+    .reduce((sum, refund) => sum + refund.amount, 0);
+  return Math.max(0, Math.round((getPaidAmount(order) - committed) * 100) / 100);
+};
+
+// Derive refunded / partially_refunded from processed refunds
+export const syncRefundedStatus = (order: IOrder) => {
+  if (!isPaymentReceived(order)) {
+    return;
+  }
+  const processed = order.refunds
+    .filter((refund) => refund.status === 'processed')
+    .reduce((sum, refund) => sum + refund.amount, 0);
+
+  if (processed >= getPaidAmount(order)) {
+    order.payment.status = 'refunded';
+  } else if (processed > 0) {
+    order.payment.status = 'partially_refunded';
+  } else {
+    order.payment.status = 'paid';
+  }
+};
+
+const findOrderForEvent = (provider: PaymentProvider, event: NormalizedEvent, session: ClientSession) => {
+  const references = [event.gatewayOrderId, event.gatewayPaymentId].filter(Boolean);
+  if (references.length === 0) {
+    return null;
+  }
+  return Order.findOne({
+    'payment.provider': provider,
+    $or: [
+      { 'payment.orderId': { $in: references } },
+      { 'payment.paymentId': { $in: references } }
+    ]
+  }).session(session);
+};
+
+// Returns false when the event changes nothing, e.g. a late update to a refund that is already final
+const applyRefundEvent = (order: IOrder, event: NormalizedEvent) => {
+  const refunded = event.kind === 'refund_processed';
+
+  // Match on the gateway refund id, else the oldest pending refund of the same amount
+  let refund = order.refunds.find((r) => r.gatewayRefundId && r.gatewayRefundId === event.gatewayRefundId)
+    ?? (event.amount === undefined
+      ? undefined
+      : order.refunds.find((r) => r.status === 'pending' && !r.gatewayRefundId && r.amount === event.amount));
+
+  if (refund && refund.status !== 'pending') {
+    return false;
+  }
+
+  if (!refund) {
+    // Without an amount there is nothing to record
+    if (event.amount === undefined) {
+      return false;
+    }
+    // Refund issued directly from the gateway dashboard
+    order.refunds.push({
+      amount: event.amount,
+      reason: 'Refund issued from payment gateway',
+      status: 'pending',
+      gatewayRefundId: event.gatewayRefundId
+    });
+    refund = order.refunds[order.refunds.length - 1];
+  }
+
+  refund.gatewayRefundId = event.gatewayRefundId;
+  refund.status = refunded ? 'processed' : 'failed';
+  refund.processedAt = refunded ? new Date() : undefined;
+  refund.failureReason = refunded ? undefined : event.failureReason;
+  syncRefundedStatus(order);
+  return true;
+};
+
+/**
+ * Apply a verified webhook to its order. Each gateway event id is applied
+ * at most once; the event is recorded in the same transaction as the order
+ * change, so repeats and concurrent deliveries are acknowledged without
+ * changing anything.
+ */
+export const handlePaymentWebhook = async (provider: PaymentProvider, body: any, eventIdHeader?: string) => {
+  const event = provider === 'razorpay' ? normalizeRazorpayEvent(body, eventIdHeader) : normalizeStripeEvent(body);
+
+  try {
+    return await runInTransaction(async (session) => {
+      // Claim the event id first; the unique index rejects a second delivery
+      const [record] = await PaymentEvent.create(
+        [{ provider, eventId: event.eventId, type: event.type, outcome: 'ignored', payload: body }],
+        { session }
+      );
+
+      const order = event.kind === 'other' ? null : await findOrderForEvent(provider, event, session);
+      let outcome: 'applied' | 'ignored' | 'unmatched' = order ? 'applied' : event.kind === 'other' ? 'ignored' : 'unmatched';
+
+      if (order) {
+        if (event.kind === 'payment_paid') {
+          if (!isPaymentReceived(order)) {
+            order.payment.status = 'paid';
+            order.payment.paidAt = new Date();
+            order.payment.amountPaid = event.amount ?? order.total;
+            order.payment.paymentId = order.payment.paymentId ?? event.gatewayPaymentId;
+          } else {
+            outcome = 'ignored';
+          }
+        } else if (event.kind === 'payment_failed') {
+          if (!isPaymentReceived(order)) {
+            order.payment.status = 'failed';
+          } else {
+            outcome = 'ignored';
+          }
+        } else if (!applyRefundEvent(order, event)) {
+          outcome = 'ignored';
+        }
+        await order.save({ session });
+      }
+
+      record.outcome = outcome;
+      record.orderId = order?._id;
+      await record.save({ session });
+
+      return { duplicate: false, outcome, orderId: order?._id as mongoose.Types.ObjectId | undefined };
+    });
+  } catch (error: any) {
+    // The event was already recorded by an earlier or concurrent delivery
+    if (error?.code === 11000) {
+      return { duplicate: true, outcome: 'ignored' as const };
+    }
+    throw error;
+  }
+};
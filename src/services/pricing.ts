@@ -0,0 +1,246 @@
+import mongoose, { ClientSession } from 'mongoose';
+import { Product, IUnitPrice } from '../models/Product';
+import { PriceChange, PriceChangeSource } from '../models/PriceChange';
+import { PriceSchedule, IPriceSchedule } from '../models/PriceSchedule';
+import { logger } from '../utils/logger';
+import { runInTransaction } from '../utils/transaction';
+
+type UnitPriceValues = Pick<IUnitPrice, 'unit' | 'price' | 'compareAt'>;
+
+export interface PriceChangeContext {
+  userId?: mongoose.Types.ObjectId;
+  scheduleId?: mongoose.Types.ObjectId;
+  effectiveAt?: Date;
+  session?: ClientSession;
+}
+
+const samePrice = (a: Pick<IUnitPrice, 'price' | 'compareAt'>, b: Pick<IUnitPrice, 'price' | 'compareAt'>) =>
+  a.price === b.price && (a.compareAt ?? null) === (b.compareAt ?? null);
+
+/**
+ * Record a history entry for every unit whose price or compareAt differs
+ * from `previous`. Units missing from `previous` are recorded as new.
+ */
+export const recordPriceChanges = async (
+  productId: mongoose.Types.ObjectId,
+  previous: UnitPriceValues[],
+  current: UnitPriceValues[],
+  source: PriceChangeSource,
+  context: PriceChangeContext = {}
+) => {
+  const before = new Map(previous.map((up) => [up.unit, up]));
+  const changes = current
+    .filter((up) => {
+      const prev = before.get(up.unit);
+      return !prev || !samePrice(prev, up);
+    })
+    .map((up) => ({
+      productId,
+      unit: up.unit,
+      price: up.price,
+      compareAt: up.compareAt,
+      previousPrice: before.get(up.unit)?.price,
+      previousCompareAt: before.get(up.unit)?.compareAt,
+      effectiveAt: context.effectiveAt ?? new Date(),
+      source,
+      scheduleId: context.scheduleId,
+      changedBy: context.userId
+    }));
+
+  if (changes.length > 0) {
+    await PriceChange.insertMany(changes, { session: context.session });
+  }
+};
+
+/**
+ * Set one unit's price and compareAt (undefined removes it). Returns the
+ * values they replaced, or null when the product or unit no longer exists.
+ */
+const setUnitPrice = async (
+  productId: mongoose.Types.ObjectId,
+  unit: IUnitPrice['unit'],
+  values: Pick<IUnitPrice, 'price' | 'compareAt'>,
+  session?: ClientSession
+) => {
+  const update: any = { $set: { 'unitPrices.$.price': values.price } };
+  if (values.compareAt === undefined) {
+    update.$unset = { 'unitPrices.$.compareAt': '' };
+  } else {
+    update.$set['unitPrices.$.compareAt'] = values.compareAt;
+  }
+
+  const product = await Product.findOneAndUpdate(
+    { _id: productId, deletedAt: null, 'unitPrices.unit': unit },
+    update,
+    { projection: { unitPrices: 1 }, session }
+  );
+
+  return product?.unitPrices.find((up) => up.unit === unit) ?? null;
+};
+
+// The price and compareAt a schedule puts in place over the values it replaces
+const scheduledValues = (schedule: IPriceSchedule, current: Pick<IUnitPrice, 'price' | 'compareAt'>) => ({
+  price: schedule.price ?? current.price,
+  compareAt: schedule.clearCompareAt ? undefined : schedule.compareAt ?? current.compareAt
+});
+
+/**
+ * Start a pending schedule. The claim and the price write share a
+ * transaction, so a failure part-way leaves the schedule pending for the
+ * next run instead of marked active with the old price still in place.
+ */
+export const applyPriceSchedule = (schedule: IPriceSchedule, now = new Date()) => runInTransaction(async (session) => {
+  // Claim the schedule first so two workers never apply it twice
+  const claimed = await PriceSchedule.findOneAndUpdate(
+    { _id: schedule._id, status: 'pending' },
+    { $set: { status: schedule.endsAt ? 'active' : 'completed', appliedAt: now, ...(schedule.endsAt ? {} : { endedAt: now }) } },
+    { new: true, session }
+  );
+  if (!claimed) {
+    return false;
+  }
+
+  const product = await Product.findOne({ _id: claimed.productId, deletedAt: null }).select('unitPrices').session(session);
+  const current = product?.unitPrices.find((up) => up.unit === claimed.unit);
+  const previous = current ? await setUnitPrice(claimed.productId, claimed.unit, scheduledValues(claimed, current), session) : null;
+
+  if (!previous) {
+    claimed.status = 'cancelled';
+    claimed.endedAt = now;
+    claimed.note = [claimed.note, 'Product or unit no longer exists'].filter(Boolean).join(' - ');
+    await claimed.save({ session });
+    return false;
+  }
+
+  claimed.revertTo = { price: previous.price, compareAt: previous.compareAt };
+  await claimed.save({ session });
+
+  await recordPriceChanges(
+    claimed.productId,
+    [previous],
+    [{ unit: claimed.unit, ...scheduledValues(claimed, previous) }],
+    'schedule',
+    { scheduleId: claimed._id, userId: claimed.createdBy, effectiveAt: now, session }
+  );
+  return true;
+});
+
+/**
+ * Finish an active schedule and put back the values it replaced, in one
+ * transaction. If the price was changed by hand while the schedule ran, the
+ * manual price is kept and nothing is reverted.
+ */
+export const endPriceSchedule = (
+  schedule: IPriceSchedule,
+  now = new Date(),
+  userId?: mongoose.Types.ObjectId
+) => runInTransaction(async (session) => {
+  const claimed = await PriceSchedule.findOneAndUpdate(
+    { _id: schedule._id, status: 'active' },
+    { $set: { status: 'completed', endedAt: now } },
+    { new: true, session }
+  );
+  if (claimed?.revertTo?.price === undefined) {
+    return false;
+  }
+
+  const revertTo = { price: claimed.revertTo.price, compareAt: claimed.revertTo.compareAt ?? undefined };
+  const product = await Product.findOne({ _id: claimed.productId, deletedAt: null }).select('unitPrices').session(session);
+  const current = product?.unitPrices.find((up) => up.unit === claimed.unit);
+
+  if (!current || !samePrice(current, scheduledValues(claimed, revertTo))) {
+    logger.warn(`Price schedule ${claimed._id} ended without reverting; the price changed while it was active`);
+    claimed.note = [claimed.note, 'Not reverted: price changed while active'].filter(Boolean).join(' - ');
+    await claimed.save({ session });
+    return false;
+  }
+
+  const previous = await setUnitPrice(claimed.productId, claimed.unit, revertTo, session);
+  if (!previous) {
+    return false;
+  }
+
+  await recordPriceChanges(
+    claimed.productId,
+    [previous],
+    [{ unit: claimed.unit, ...revertTo }],
+    'revert',
+    { scheduleId: claimed._id, userId: userId ?? claimed.createdBy, effectiveAt: now, session }
+  );
+  return true;
+});
+
+/**
+ * Future timeline entries for pending and active schedules. Pending ones
+ * are projected from the unit's current price, since that is what they
+ * will replace when they start.
+ */
+export const projectPriceSchedules = (schedules: IPriceSchedule[], unitPrices: UnitPriceValues[]) => {
+  const currentByUnit = new Map(unitPrices.map((up) => [up.unit, up]));
+
+  return schedules.flatMap((schedule) => {
+    const current = currentByUnit.get(schedule.unit);
+    if (!current) {
+      return [];
+    }
+    const replaced = schedule.status === 'active' && schedule.revertTo?.price !== undefined
+      ? { price: schedule.revertTo.price, compareAt: schedule.revertTo.compareAt ?? undefined }
+      : { price: current.price, compareAt: current.compareAt };
+    const base = { unit: schedule.unit, scheduleId: schedule._id, scheduled: true };
+
+    return [
+      ...(schedule.status === 'pending'
+        ? [{ ...base, effectiveAt: schedule.startsAt, source: 'schedule' as const, ...scheduledValues(schedule, replaced) }]
+        : []),
+      ...(schedule.endsAt
+        ? [{ ...base, effectiveAt: schedule.endsAt, source: 'revert' as const, ...replaced }]
+        : [])
+    ];
+  });
+};
+
+// Apply every schedule whose start has passed, then end those whose end has passed
+export const runDuePriceSchedules = async (now = new Date()) => {
+  let applied = 0;
+  let ended = 0;
+
+  const starting = await PriceSchedule.find({ status: 'pending', startsAt: { $lte: now } }).sort({ startsAt: 1 });
+  for (const schedule of starting) {
+    if (await applyPriceSchedule(schedule, now)) {
+      applied += 1;
+    }
+  }
+
+  const ending = await PriceSchedule.find({ status: 'active', endsAt: { $lte: now } }).sort({ endsAt: 1 });
+  for (const schedule of ending) {
+    if (await endPriceSchedule(schedule, now)) {
+      ended += 1;
+    }
+  }
+
+  return { applied, ended };
+};
+
+export const startPriceScheduler = (intervalMs: number) => {
+  let running = false;
+
+  const tick = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const { applied, ended } = await runDuePriceSchedules();
+      if (applied > 0 || ended > 0) {
+        logger.info(`Price schedules: ${applied} applied, ${ended} reverted`);
+      }
+    } catch (error) {
+      logger.error('Price scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  };
+
+  void tick();
+  return setInterval(tick, intervalMs);
+};
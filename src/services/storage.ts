@@ -0,0 +1,67 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Where uploaded files live. Keys are relative paths such as
+ * `ab/abcdef….jpg`; `getUrl` returns the public URL clients store.
+ * Another backend (e.g. object storage) only has to implement this.
+ */
+export interface StorageBackend {
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  getUrl(key: string): string;
+}
+
+export const UPLOAD_DIR = path.resolve(process.env.UPLOAD_DIR || 'uploads');
+
+export const UPLOADS_PUBLIC_PATH = '/uploads';
+
+export const createLocalDiskStorage = (rootDir: string, baseUrl: string): StorageBackend => {
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async save(key, data) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    async delete(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+
+    async exists(key) {
+      try {
+        await fs.access(resolveKey(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    getUrl(key) {
+      return `${baseUrl}/${key}`;
+    }
+  };
+};
+
+let storage: StorageBackend | undefined;
+
+export const getStorage = () => {
+  if (!storage) {
+    const driver = process.env.STORAGE_DRIVER || 'local';
+    if (driver !== 'local') {
+      throw new Error(`Unsupported STORAGE_DRIVER: ${driver}`);
+    }
+    const publicUrl = (process.env.PUBLIC_URL || `http://localhost:${process.env.PORT || 3001}`).replace(/\/$/, '');
+    storage = createLocalDiskStorage(UPLOAD_DIR, `${publicUrl}${UPLOADS_PUBLIC_PATH}`);
+  }
+  return storage;
+};
@@ -0,0 +1,156 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { Session } from '../models/Session';
+import { User } from '../models/User';
+import { isStaffRole } from '../utils/permissions';
+
+const ACCESS_TOKEN_EXPIRES_IN = '15m';
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+export interface AccessTokenPayload {
+  userId: string;
+  sid: string;
+  type: 'access';
+}
+
+interface RefreshTokenPayload {
+  userId: string;
+  sid: string;
+  jti: string;
+  type: 'refresh';
+}
+
+export class RefreshTokenError extends Error {
+  status = 401;
+}
+
+const getSecrets = () => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not configured. Please set JWT_SECRET in your .env file.');
+  }
+  if (!process.env.JWT_REFRESH_SECRET || process.env.JWT_REFRESH_SECRET === process.env.JWT_SECRET) {
+    throw new Error('JWT_REFRESH_SECRET is not configured. It must be set and differ from JWT_SECRET.');
+  }
+  return { accessSecret: process.env.JWT_SECRET, refreshSecret: process.env.JWT_REFRESH_SECRET };
+};
+
+const hashToken = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+const signTokens = (userId: string, sid: string, jti: string) => {
+  const { accessSecret, refreshSecret } = getSecrets();
+
+  const accessToken = jwt.sign(
+    { userId, sid, type: 'access' },
+    accessSecret,
+    { expiresIn: ACCESS_TOKEN_EXPIRES_IN }
+  );
+
+  const refreshToken = jwt.sign(
+    { userId, sid, jti, type: 'refresh' },
+    refreshSecret,
+    { expiresIn: `${REFRESH_TOKEN_TTL_DAYS}d` }
+  );
+
+  return { accessToken, refreshToken };
+};
+
+const refreshExpiry = () => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+const verifyRefreshToken = (token: string, ignoreExpiration = false) => {
+  const { refreshSecret } = getSecrets();
+  try {
+    const payload = jwt.verify(token, refreshSecret, { ignoreExpiration }) as RefreshTokenPayload;
+    if (payload.type !== 'refresh' || !payload.sid || !payload.jti) {
+      throw new RefreshTokenError('Invalid refresh token');
+    }
+    return payload;
+  } catch (error) {
+    if (error instanceof RefreshTokenError) throw error;
+    throw new RefreshTokenError('Invalid refresh token');
+  }
+};
+
+// Start a new session (token family) and issue its first token pair
+export const issueTokens = async (
+  userId: mongoose.Types.ObjectId,
+  meta: { ip?: string; userAgent?: string } = {}
+) => {
+  const jti = crypto.randomUUID();
+  const session = await Session.create({
+    userId,
+    currentTokenHash: hashToken(jti),
+    expiresAt: refreshExpiry(),
+    ip: meta.ip,
+    userAgent: meta.userAgent
+  });
+
+  return signTokens(userId.toString(), session._id.toString(), jti);
+};
+
+/**
+ * Exchange a refresh token for a new token pair. Only the latest token of a
+ * session may be used; presenting an older one means it was stolen or
+ * replayed, so the whole session is revoked. The session also ends once its
+ * user is blocked, deleted or no longer staff.
+ */
+export const rotateRefreshToken = async (token: string) => {
+  const payload = verifyRefreshToken(token);
+
+  const session = await Session.findById(payload.sid);
+  if (!session || session.revokedAt || session.userId.toString() !== payload.userId) {
+    throw new RefreshTokenError('Session is no longer valid');
+  }
+
+  const user = await User.findById(payload.userId).select('role isBlocked');
+  if (!user || user.isBlocked || !isStaffRole(user.role)) {
+    await revokeSession(session._id, 'admin');
+    throw new RefreshTokenError('Session is no longer valid');
+  }
+
+  const nextJti = crypto.randomUUID();
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, currentTokenHash: hashToken(payload.jti), revokedAt: { $exists: false } },
+    { $set: { currentTokenHash: hashToken(nextJti), lastUsedAt: new Date(), expiresAt: refreshExpiry() } },
+    { new: true }
+  );
+
+  if (!rotated) {
+    await revokeSession(session._id, 'reuse_detected');
+    throw new RefreshTokenError('Refresh token reuse detected, session revoked');
+  }
+
+  return signTokens(payload.userId, rotated._id.toString(), nextJti);
+};
+
+// Revoke the session a refresh token belongs to. Expired tokens may still log out.
+export const revokeRefreshToken = async (token: string) => {
+  const payload = verifyRefreshToken(token, true);
+  await revokeSession(payload.sid, 'logout');
+};
+
+export const revokeSession = async (
+  sessionId: mongoose.Types.ObjectId | string,
+  reason: 'logout' | 'reuse_detected' | 'admin'
+) => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+};
+
+// End every session of a user, e.g. when the account is blocked
+export const revokeUserSessions = async (
+  userId: mongoose.Types.ObjectId | string,
+  reason: 'logout' | 'admin'
+) => {
+  await Session.updateMany(
+    { userId, revokedAt: { $exists: false } },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+};
+
+export const isSessionActive = async (sessionId: string) => {
+  const session = await Session.findById(sessionId).select('revokedAt expiresAt');
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+};
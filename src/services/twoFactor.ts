@@ -0,0 +1,88 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { IUser } from '../models/User';
+import { verifyTotp } from '../utils/totp';
+
+const CHALLENGE_TOKEN_EXPIRES_IN = '5m';
+const RECOVERY_CODE_COUNT = 10;
+
+export const TWO_FACTOR_SELECT = '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+// `verify`: password accepted, TOTP still needed. `enroll`: 2FA must be set up before logging in.
+export type ChallengePurpose = 'verify' | 'enroll';
+
+interface ChallengeTokenPayload {
+  userId: string;
+  type: 'challenge';
+  purpose: ChallengePurpose;
+}
+
+export class ChallengeTokenError extends Error {
+  status = 401;
+}
+
+const getSecret = () => {
+  if (!process.env.JWT_SECRET) {
+    throw new Error('JWT_SECRET is not configured. Please set JWT_SECRET in your .env file.');
+  }
+  return process.env.JWT_SECRET;
+};
+
+const hashRecoveryCode = (code: string) =>
+  crypto.createHash('sha256').update(code.replace(/-/g, '').toLowerCase()).digest('hex');
+
+export const signChallengeToken = (userId: string, purpose: ChallengePurpose) =>
+  jwt.sign({ userId, type: 'challenge', purpose }, getSecret(), { expiresIn: CHALLENGE_TOKEN_EXPIRES_IN });
+
+export const verifyChallengeToken = (token: string, purpose: ChallengePurpose) => {
+  try {
+    const payload = jwt.verify(token, getSecret()) as ChallengeTokenPayload;
+    if (payload.type !== 'challenge' || payload.purpose !== purpose) {
+      throw new ChallengeTokenError('Invalid challenge token');
+    }
+    return payload;
+  } catch (error) {
+    if (error instanceof ChallengeTokenError) throw error;
+    throw new ChallengeTokenError('Invalid or expired challenge token');
+  }
+};
+
+// Generate fresh recovery codes; only their hashes are stored on the user
+export const generateRecoveryCodes = () => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+};
+
+/**
+ * Verify a TOTP code against the user's active secret, refusing codes from a
+ * step that was already used. On success the step is recorded on the user;
+ * the caller must save it.
+ */
+export const consumeTotpCode = (user: IUser, code: string, secret = user.twoFactorSecret) => {
+  if (!secret) {
+    return false;
+  }
+
+  const step = verifyTotp(secret, code);
+  if (step === null || (user.twoFactorLastUsedStep !== undefined && step <= user.twoFactorLastUsedStep)) {
+    return false;
+  }
+
+  user.twoFactorLastUsedStep = step;
+  return true;
+};
+
+// Use up a recovery code. The caller must save the user on success.
+export const consumeRecoveryCode = (user: IUser, code: string) => {
+  const hash = hashRecoveryCode(code);
+  const codes = user.twoFactorRecoveryCodes ?? [];
+  if (!codes.includes(hash)) {
+    return false;
+  }
+
+  user.twoFactorRecoveryCodes = codes.filter((stored) => stored !== hash);
+  return true;
+};
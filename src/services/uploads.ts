@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Upload, IUpload } from '../models/Upload';
+import { Product } from '../models/Product';
+import { Category } from '../models/Category';
+import { getStorage } from './storage';
+import { logger } from '../utils/logger';
+
+// Uploads handed out this recently are never treated as orphans
+const ORPHAN_GRACE_MS = 60 * 60 * 1000;
+
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+// Identify the image type from its first bytes rather than trusting the client
+export const detectImageType = (data: Buffer) => {
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return 'image/jpeg';
+  }
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'image/png';
+  }
+  if (data.length >= 12 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    return 'image/webp';
+  }
+  if (data.length >= 6 && ['GIF87a', 'GIF89a'].includes(data.toString('ascii', 0, 6))) {
+    return 'image/gif';
+  }
+  return null;
+};
+
+/**
+ * Store an image unless an identical one already exists. Returns the upload
+ * record and whether it was a duplicate; null when the content is not a
+ * supported image.
+ */
+export const storeImage = async (
+  file: { buffer: Buffer; originalname: string },
+  userId?: mongoose.Types.ObjectId
+): Promise<{ upload: IUpload; duplicate: boolean } | null> => {
+  const contentType = detectImageType(file.buffer);
+  if (!contentType) {
+    return null;
+  }
+
+  const hash = crypto.createHash('sha256').update(file.buffer).digest('hex');
+  const existing = await Upload.findOneAndUpdate({ hash }, { $set: { lastUsedAt: new Date() } }, { new: true });
+  if (existing) {
+    return { upload: existing, duplicate: true };
+  }
+
+  const storage = getStorage();
+  const key = `${hash.slice(0, 2)}/${hash}.${IMAGE_EXTENSIONS[contentType]}`;
+  await storage.save(key, file.buffer, contentType);
+
+  try {
+    const upload = await Upload.create({
+      hash,
+      key,
+      url: storage.getUrl(key),
+      contentType,
+      size: file.buffer.length,
+      originalName: file.originalname,
+      uploadedBy: userId
+    });
+    return { upload, duplicate: false };
+  } catch (error: any) {
+    // The same file was uploaded concurrently; both writes produced the same key
+    if (error?.code === 11000) {
+      const upload = await Upload.findOneAndUpdate({ hash }, { $set: { lastUsedAt: new Date() } }, { new: true });
+      if (upload) {
+        return { upload, duplicate: true };
+      }
+    }
+    throw error;
+  }
+};
+
+// Trashed products still count, so restoring one never loses its images
+const isUrlReferenced = async (url: string) =>
+  Boolean(await Product.exists({ images: url }) || await Category.exists({ iconUrl: url }));
+
+/**
+ * Delete an upload unless it was handed out after `usedBefore`. The record
+ * is removed first and conditionally, so a concurrent re-upload that
+ * refreshes `lastUsedAt` keeps the file.
+ */
+const removeUpload = async (upload: IUpload, usedBefore: Date) => {
+  const { deletedCount } = await Upload.deleteOne({ _id: upload._id, lastUsedAt: { $lt: usedBefore } });
+  if (deletedCount === 0) {
+    return false;
+  }
+  await getStorage().delete(upload.key);
+  return true;
+};
+
+/**
+ * Delete the stored files behind `urls` that nothing references any more.
+ * External URLs are ignored. Failures are logged and never fail the
+ * request that triggered them.
+ */
+export const removeOrphanedUploads = async (urls: (string | undefined)[]) => {
+  let removed = 0;
+  for (const url of new Set(urls.filter((value): value is string => Boolean(value)))) {
+    try {
+      const upload = await Upload.findOne({ url });
+      if (upload && !await isUrlReferenced(url) && await removeUpload(upload, new Date(Date.now() - ORPHAN_GRACE_MS))) {
+        removed += 1;
+      }
+    } catch (error) {
+      logger.error(`Remove orphaned upload error (${url}):`, error);
+    }
+  }
+  return removed;
+};
+
+// Remove uploads last handed out before `before` that were never attached or have since been detached
+export const removeUnusedUploads = async (before: Date) => {
+  let scanned = 0;
+  let removed = 0;
+
+  const cursor = Upload.find({ lastUsedAt: { $lt: before } }).cursor();
+  for await (const upload of cursor) {
+    scanned += 1;
+    if (!await isUrlReferenced(upload.url) && await removeUpload(upload, before)) {
+      removed += 1;
+    }
+  }
+
+  return { scanned, removed };
+};
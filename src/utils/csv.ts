@@ -0,0 +1,79 @@
+// Minimal RFC 4180 CSV helpers (quoted fields, escaped quotes, CRLF or LF line endings)
+
+const needsQuoting = /[",\r\n]/;
+
+// Text that spreadsheets would evaluate as a formula
+const formulaPrefix = /^[=+\-@\t\r]/;
+
+export const toCsvValue = (value: unknown) => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && formulaPrefix.test(text)) {
+    text = `'${text}`;
+  }
+  return needsQuoting.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Undo the formula guard added by toCsvValue so exports import unchanged
+const fromCsvValue = (value: string) => (/^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value);
+
+export const toCsvRow = (values: unknown[]) => values.map(toCsvValue).join(',') + '\r\n';
+
+export const toCsv = (header: string[], rows: unknown[][]) =>
+  toCsvRow(header) + rows.map(toCsvRow).join('');
+
+export const parseCsv = (input: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = input.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+};
+
+// Parse CSV with a header row into objects keyed by trimmed header names
+export const parseCsvRecords = (input: string) => {
+  const [header = [], ...rows] = parseCsv(input);
+  const keys = header.map((key) => key.trim());
+  return rows.map((row) => Object.fromEntries(keys.map((key, index) => [key, fromCsvValue((row[index] ?? '').trim())])));
+};
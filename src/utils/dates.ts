@@ -0,0 +1,72 @@
+export const STORE_TIMEZONE = process.env.STORE_TIMEZONE || 'Asia/Kolkata';
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidTimezone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Milliseconds the given timezone is ahead of UTC at `date`
+const getTimezoneOffsetMs = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+// Calendar year/month/day of an instant as seen in the given timezone
+export const getDatePartsInZone = (date: Date, timeZone = STORE_TIMEZONE) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric'
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day') };
+};
+
+// Midnight of a YYYY-MM-DD day in the given timezone
+export const startOfDayInZone = (day: string, timeZone = STORE_TIMEZONE) => {
+  const utcMidnight = new Date(`${day}T00:00:00Z`);
+  return new Date(utcMidnight.getTime() - getTimezoneOffsetMs(utcMidnight, timeZone));
+};
+
+/**
+ * Build a `createdAt`-style range filter. Date-only values are whole days in
+ * the given timezone, so `to=2024-03-31` includes all of March 31st; full
+ * timestamps are used as-is.
+ */
+export const buildDateRange = (from?: string, to?: string, timeZone = STORE_TIMEZONE) => {
+  const range: { $gte?: Date; $lt?: Date; $lte?: Date } = {};
+
+  if (from) {
+    range.$gte = DATE_ONLY.test(from) ? startOfDayInZone(from, timeZone) : new Date(from);
+  }
+
+  if (to) {
+    if (DATE_ONLY.test(to)) {
+      const next = new Date(`${to}T00:00:00Z`);
+      next.setUTCDate(next.getUTCDate() + 1);
+      range.$lt = startOfDayInZone(next.toISOString().slice(0, 10), timeZone);
+    } else {
+      range.$lte = new Date(to);
+    }
+  }
+
+  return range;
+};
@@ -0,0 +1,11 @@
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+// Escape a value for safe interpolation into HTML text or attributes
+export const escapeHtml = (value: unknown) =>
+  value === undefined || value === null ? '' : String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
@@ -0,0 +1,39 @@
+export const PERMISSIONS = [
+  'catalog:read',
+  'catalog:write',
+  'catalog:delete',
+  'inventory:write',
+  'orders:read',
+  'orders:update-status',
+  'customers:read',
+  'customers:write',
+  'delivery:manage',
+  'payments:manage',
+  'promotions:manage',
+  'audit:read',
+  'analytics:read',
+  'security:manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const USER_ROLES = ['user', 'admin', 'catalog_manager', 'packer', 'delivery_coordinator'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+// Permissions granted to each role. Customers (`user`) get none.
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  user: [],
+  admin: PERMISSIONS,
+  catalog_manager: ['catalog:read', 'catalog:write', 'catalog:delete', 'inventory:write', 'orders:read', 'promotions:manage'],
+  packer: ['catalog:read', 'orders:read', 'orders:update-status'],
+  delivery_coordinator: ['orders:read', 'orders:update-status', 'customers:read', 'delivery:manage']
+};
+
+export const getPermissions = (role: UserRole): Permission[] => [...(ROLE_PERMISSIONS[role] ?? [])];
+
+export const hasPermission = (role: UserRole, permission: Permission) =>
+  (ROLE_PERMISSIONS[role] ?? []).includes(permission);
+
+// Staff roles are allowed to sign in to the admin panel
+export const isStaffRole = (role: UserRole) => role !== 'user';
@@ -0,0 +1,2 @@
+// Escape user input so it can be safely embedded in a RegExp
+export const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
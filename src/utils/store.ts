@@ -0,0 +1,8 @@
+// Seller details printed on customer-facing documents such as invoices
+export const getStoreDetails = () => ({
+  name: process.env.STORE_NAME || 'VeggieFresh',
+  address: process.env.STORE_ADDRESS || '',
+  phone: process.env.STORE_PHONE || '',
+  email: process.env.STORE_EMAIL || '',
+  gstin: process.env.STORE_GSTIN || ''
+});
@@ -0,0 +1,18 @@
+import mongoose, { ClientSession } from 'mongoose';
+
+/**
+ * Runs `work` inside a MongoDB transaction, retrying on transient errors.
+ * Requires the database to run as a replica set.
+ */
+export const runInTransaction = async <T>(work: (session: ClientSession) => Promise<T>): Promise<T> => {
+  const session = await mongoose.startSession();
+  try {
+    let result!: T;
+    await session.withTransaction(async () => {
+      result = await work(session);
+    });
+    return result;
+  } finally {
+    await session.endSession();
+  }
+};